@@ -0,0 +1,317 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CalendarClock, KeyRound, Loader2, Mail, Shield, UserRound } from "lucide-react";
+
+import { useAuth } from "@/components/auth-provider";
+import { FieldError } from "@/components/field-error";
+import { PasswordFields } from "@/components/password-fields";
+import { getFieldErrors, getFormErrorMessage, type FieldErrors } from "@/lib/api";
+import { validateNewPassword } from "@/lib/password-policy";
+import { isUnavailable, updateCurrentUser, type AccountUpdate } from "@/lib/proposed-api";
+import { queryCache } from "@/lib/query-cache";
+
+type StatusMessage = {
+  type: "success" | "error";
+  text: string;
+};
+
+type Section = "profile" | "email" | "password";
+
+const inputClassName =
+  "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200";
+
+function formatDate(value?: string) {
+  if (!value) return "—";
+  try {
+    return new Intl.DateTimeFormat("en", {
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+    }).format(new Date(value));
+  } catch {
+    return value;
+  }
+}
+
+function StatusBanner({ status }: { status: StatusMessage | null }) {
+  if (!status) return null;
+  return status.type === "success" ? (
+    <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm font-semibold text-emerald-700">
+      {status.text}
+    </p>
+  ) : (
+    <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm font-semibold text-red-700">
+      {status.text}
+    </p>
+  );
+}
+
+export default function AccountPage() {
+  const { user, loading, refreshUser } = useAuth();
+
+  const [fullName, setFullName] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [emailPassword, setEmailPassword] = useState("");
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  const [saving, setSaving] = useState<Section | null>(null);
+  const [statuses, setStatuses] = useState<Partial<Record<Section, StatusMessage>>>({});
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<Section, FieldErrors>>>({});
+  // Set once the backend turns out not to implement PATCH /auth/me; the forms then stay disabled.
+  const [editingUnavailable, setEditingUnavailable] = useState(false);
+
+  useEffect(() => {
+    setFullName(user?.full_name ?? "");
+  }, [user?.full_name]);
+
+  // Each card saves independently, so messages and field errors are tracked per section.
+  const save = async (section: Section, payload: AccountUpdate, successText: string) => {
+    setSaving(section);
+    setStatuses((prev) => ({ ...prev, [section]: undefined }));
+    setFieldErrors((prev) => ({ ...prev, [section]: {} }));
+
+    try {
+      await updateCurrentUser(payload);
+      await refreshUser();
+      queryCache.invalidate(["users"]);
+      setStatuses((prev) => ({ ...prev, [section]: { type: "success", text: successText } }));
+      return true;
+    } catch (error) {
+      if (isUnavailable(error)) {
+        setEditingUnavailable(true);
+        return false;
+      }
+      setFieldErrors((prev) => ({ ...prev, [section]: getFieldErrors(error) }));
+      setStatuses((prev) => ({
+        ...prev,
+        [section]: { type: "error", text: getFormErrorMessage(error, "Unable to save your changes.") },
+      }));
+      return false;
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleProfileSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    await save("profile", { full_name: fullName.trim() || null }, "Profile updated.");
+  };
+
+  const handleEmailSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const saved = await save(
+      "email",
+      { email: newEmail.trim(), current_password: emailPassword },
+      "Email address updated. Use it the next time you log in.",
+    );
+    if (saved) {
+      setNewEmail("");
+      setEmailPassword("");
+    }
+  };
+
+  const handlePasswordSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const passwordErrors = validateNewPassword(newPassword, confirmation, user?.email, "new_password");
+    if (passwordErrors) {
+      setStatuses((prev) => ({ ...prev, password: undefined }));
+      setFieldErrors((prev) => ({ ...prev, password: passwordErrors }));
+      return;
+    }
+
+    const saved = await save(
+      "password",
+      { new_password: newPassword, current_password: currentPassword },
+      "Password changed.",
+    );
+    if (saved) {
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmation("");
+    }
+  };
+
+  if (loading || !user) {
+    return (
+      <main className="mx-auto flex min-h-[60vh] max-w-5xl items-center justify-center px-4">
+        <div className="flex items-center gap-3 rounded-xl border border-slate-200 bg-white px-4 py-3 shadow-sm">
+          <Loader2 className="h-5 w-5 animate-spin text-slate-500" />
+          <p className="text-sm font-semibold text-slate-700">Loading your account…</p>
+        </div>
+      </main>
+    );
+  }
+
+  const profileErrors = fieldErrors.profile ?? {};
+  const emailErrors = fieldErrors.email ?? {};
+  const passwordErrors = fieldErrors.password ?? {};
+
+  return (
+    <main className="mx-auto flex max-w-3xl flex-col gap-6 px-4 pb-20 pt-10">
+      <div className="space-y-2">
+        <p className="text-sm font-semibold uppercase tracking-wide text-slate-500">Account</p>
+        <h1 className="text-3xl font-bold text-slate-900">Your account settings</h1>
+        <p className="text-sm text-slate-600">Update how you appear on PropertySystems and how you sign in.</p>
+      </div>
+
+      {editingUnavailable ? (
+        <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm font-semibold text-amber-800">
+          Account changes are not available yet. Your details are shown as they are on file.
+        </p>
+      ) : null}
+
+      <section className="grid gap-4 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm sm:grid-cols-3">
+        <div className="flex items-center gap-3">
+          <Mail className="h-5 w-5 text-slate-500" />
+          <div className="min-w-0">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Email</p>
+            <p className="truncate text-sm font-semibold text-slate-900">{user.email}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <Shield className="h-5 w-5 text-slate-500" />
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Role</p>
+            <p className="text-sm font-semibold capitalize text-slate-900">{user.role ?? "user"}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <CalendarClock className="h-5 w-5 text-slate-500" />
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Member since</p>
+            <p className="text-sm font-semibold text-slate-900">{formatDate(user.created_at)}</p>
+          </div>
+        </div>
+      </section>
+
+      <form
+        onSubmit={handleProfileSubmit}
+        className="space-y-4 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm"
+      >
+        <h2 className="inline-flex items-center gap-2 text-lg font-semibold text-slate-900">
+          <UserRound className="h-5 w-5 text-slate-500" />
+          Profile
+        </h2>
+        <div className="space-y-2">
+          <label htmlFor="fullName" className="text-sm font-semibold text-slate-900">
+            Full name
+          </label>
+          <input
+            id="fullName"
+            name="fullName"
+            type="text"
+            maxLength={255}
+            value={fullName}
+            onChange={(event) => setFullName(event.target.value)}
+            className={inputClassName}
+            placeholder="Jane Doe"
+          />
+          <FieldError message={profileErrors.full_name} />
+        </div>
+        <StatusBanner status={statuses.profile ?? null} />
+        <button
+          type="submit"
+          disabled={saving !== null || editingUnavailable}
+          className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {saving === "profile" ? "Saving..." : "Save profile"}
+        </button>
+      </form>
+
+      <form onSubmit={handleEmailSubmit} className="space-y-4 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="inline-flex items-center gap-2 text-lg font-semibold text-slate-900">
+          <Mail className="h-5 w-5 text-slate-500" />
+          Change email
+        </h2>
+        <div className="space-y-2">
+          <label htmlFor="newEmail" className="text-sm font-semibold text-slate-900">
+            New email
+          </label>
+          <input
+            id="newEmail"
+            name="newEmail"
+            type="email"
+            required
+            value={newEmail}
+            onChange={(event) => setNewEmail(event.target.value)}
+            className={inputClassName}
+            placeholder="you@example.com"
+          />
+          <FieldError message={emailErrors.email} />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="emailPassword" className="text-sm font-semibold text-slate-900">
+            Current password
+          </label>
+          <input
+            id="emailPassword"
+            name="emailPassword"
+            type="password"
+            required
+            autoComplete="current-password"
+            value={emailPassword}
+            onChange={(event) => setEmailPassword(event.target.value)}
+            className={inputClassName}
+          />
+          <FieldError message={emailErrors.current_password} />
+        </div>
+        <StatusBanner status={statuses.email ?? null} />
+        <button
+          type="submit"
+          disabled={saving !== null || editingUnavailable}
+          className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {saving === "email" ? "Saving..." : "Update email"}
+        </button>
+      </form>
+
+      <form
+        onSubmit={handlePasswordSubmit}
+        className="space-y-4 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm"
+      >
+        <h2 className="inline-flex items-center gap-2 text-lg font-semibold text-slate-900">
+          <KeyRound className="h-5 w-5 text-slate-500" />
+          Change password
+        </h2>
+        <div className="space-y-2">
+          <label htmlFor="currentPassword" className="text-sm font-semibold text-slate-900">
+            Current password
+          </label>
+          <input
+            id="currentPassword"
+            name="currentPassword"
+            type="password"
+            required
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(event) => setCurrentPassword(event.target.value)}
+            className={inputClassName}
+          />
+          <FieldError message={passwordErrors.current_password} />
+        </div>
+        <PasswordFields
+          id="newPassword"
+          label="New password"
+          value={newPassword}
+          onChange={setNewPassword}
+          confirmation={confirmation}
+          onConfirmationChange={setConfirmation}
+          email={user.email}
+          error={passwordErrors.new_password}
+          confirmationError={passwordErrors.confirmation}
+        />
+        <StatusBanner status={statuses.password ?? null} />
+        <button
+          type="submit"
+          disabled={saving !== null || editingUnavailable}
+          className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {saving === "password" ? "Saving..." : "Change password"}
+        </button>
+      </form>
+    </main>
+  );
+}
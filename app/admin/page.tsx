@@ -1,33 +1,47 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { Loader2, Pencil, RefreshCw, Shield, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { Eye, History, Loader2, Pencil, RefreshCw, Shield, Trash2 } from "lucide-react";
 
 import { useAuth } from "@/components/auth-provider";
-import { API_BASE_URL, fetchWithError } from "@/lib/api";
-
-type UserRecord = {
-  id: string;
-  email: string;
-  full_name?: string | null;
-  role?: string | null;
-  created_at?: string;
-};
+import { Can } from "@/components/can";
+import { FieldError } from "@/components/field-error";
+import { useCan } from "@/hooks/use-can";
+import { useQuery } from "@/hooks/use-query";
+import { getFieldErrors, getFormErrorMessage, type FieldErrors } from "@/lib/api";
+import {
+  deleteUser as deleteUserRequest,
+  listUsers,
+  updateUser,
+  userRoleOptions as roleOptions,
+  type UserRead,
+  type UserRole,
+  type UserUpdate,
+} from "@/lib/api-client";
+import { isUnavailable, listImpersonations } from "@/lib/proposed-api";
+import { queryCache } from "@/lib/query-cache";
 
 type StatusMessage = {
   type: "success" | "error";
   text: string;
 };
 
-const roleOptions = ["user", "moderator", "admin"] as const;
-
-function normalizeRole(role?: string | null): (typeof roleOptions)[number] {
-  if (role && roleOptions.includes(role as (typeof roleOptions)[number])) {
-    return role as (typeof roleOptions)[number];
+function normalizeRole(role?: string | null): UserRole {
+  if (role && roleOptions.includes(role as UserRole)) {
+    return role as UserRole;
   }
   return "user";
 }
 
+function formatDateTime(value: string) {
+  try {
+    return new Intl.DateTimeFormat("en", { dateStyle: "medium", timeStyle: "short" }).format(new Date(value));
+  } catch {
+    return value;
+  }
+}
+
 function formatDate(value?: string) {
   if (!value) return "—";
   try {
@@ -42,51 +56,70 @@ function formatDate(value?: string) {
 }
 
 export default function AdminPage() {
-  const { user, token, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const { user, loading: authLoading, impersonate } = useAuth();
 
-  const [users, setUsers] = useState<UserRecord[]>([]);
-  const [loading, setLoading] = useState(true);
   const [status, setStatus] = useState<StatusMessage | null>(null);
   const [editingUserId, setEditingUserId] = useState<string | null>(null);
-  const [editForm, setEditForm] = useState({ fullName: "", role: roleOptions[0] });
+  const [editForm, setEditForm] = useState<{ fullName: string; role: UserRole }>({
+    fullName: "",
+    role: roleOptions[0],
+  });
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [deletingId, setDeletingId] = useState<string | null>(null);
-
-  const isAdmin = useMemo(
-    () => ["admin", "moderator"].includes(user?.role ?? ""),
-    [user?.role],
+  const [impersonatingId, setImpersonatingId] = useState<string | null>(null);
+
+  const can = useCan();
+  const canViewUsers = can("users.view");
+  const canChangeRole = can("users.change_role");
+  const canImpersonate = can("users.impersonate");
+
+  const usersKey = ["users"];
+  const {
+    data: users = [],
+    error: usersError,
+    isLoading: loading,
+    refetch: refetchUsers,
+  } = useQuery(usersKey, () => listUsers(), { enabled: canViewUsers });
+  const { data: impersonations = [], error: impersonationsError } = useQuery(
+    ["impersonations"],
+    () => listImpersonations(),
+    { enabled: canImpersonate },
   );
+  // The impersonation endpoints are a proposed backend addition; hide "View as" until they exist.
+  const impersonationAvailable = !isUnavailable(impersonationsError);
+  const emailsById = new Map(users.map((record) => [record.id, record.email]));
+
+  const loadError = !user
+    ? "You need to be signed in to view users."
+    : usersError
+      ? usersError instanceof Error
+        ? usersError.message
+        : "Unable to load users."
+      : null;
+  const banner: StatusMessage | null = status ?? (loadError ? { type: "error", text: loadError } : null);
+
+  const refreshUsers = () => {
+    setStatus(null);
+    refetchUsers().catch(() => undefined);
+  };
 
-  const loadUsers = useCallback(async () => {
-    if (!token) {
-      setStatus({ type: "error", text: "You need to be signed in to view users." });
-      setLoading(false);
-      return;
-    }
-
+  const viewAs = async (record: UserRead) => {
+    setImpersonatingId(record.id);
     setStatus(null);
-    setLoading(true);
     try {
-      const data = await fetchWithError<UserRecord[]>(`${API_BASE_URL}/api/v1/users`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      setUsers(data);
+      await impersonate(record.id);
+      router.push("/listings");
     } catch (error) {
-      setStatus({
-        type: "error",
-        text: error instanceof Error ? error.message : "Unable to load users.",
-      });
-    } finally {
-      setLoading(false);
+      setStatus({ type: "error", text: getFormErrorMessage(error, "Unable to view as this user.") });
+      setImpersonatingId(null);
     }
-  }, [token]);
-
-  useEffect(() => {
-    loadUsers();
-  }, [loadUsers]);
+  };
 
-  const startEditing = (record: UserRecord) => {
+  const startEditing = (record: UserRead) => {
     setEditingUserId(record.id);
     setEditForm({ fullName: record.full_name ?? "", role: normalizeRole(record.role) });
+    setFieldErrors({});
     setStatus(null);
   };
 
@@ -99,43 +132,34 @@ export default function AdminPage() {
 
   const saveUser = async () => {
     if (!editingUserId) return;
-    if (!token) {
+    if (!user) {
       setStatus({ type: "error", text: "You must be signed in to update a user." });
       return;
     }
 
     setStatus(null);
+    setFieldErrors({});
     try {
-      const payload = {
+      const payload: UserUpdate = {
         full_name: editForm.fullName.trim() || null,
-        role: editForm.role,
+        ...(canChangeRole ? { role: editForm.role } : {}),
       };
 
-      const updated = await fetchWithError<UserRecord>(
-        `${API_BASE_URL}/api/v1/users/${editingUserId}`,
-        {
-          method: "PATCH",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify(payload),
-        },
-      );
+      const updated = await updateUser(editingUserId, payload);
 
-      setUsers((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      queryCache.setData<UserRead[]>(usersKey, (prev = []) =>
+        prev.map((item) => (item.id === updated.id ? updated : item)),
+      );
       setStatus({ type: "success", text: "User updated successfully." });
       setEditingUserId(null);
     } catch (error) {
-      setStatus({
-        type: "error",
-        text: error instanceof Error ? error.message : "Unable to save user.",
-      });
+      setFieldErrors(getFieldErrors(error));
+      setStatus({ type: "error", text: getFormErrorMessage(error, "Unable to save user.") });
     }
   };
 
   const deleteUser = async (userId: string) => {
-    if (!token) {
+    if (!user) {
       setStatus({ type: "error", text: "You must be signed in to delete a user." });
       return;
     }
@@ -149,11 +173,8 @@ export default function AdminPage() {
     setStatus(null);
 
     try {
-      await fetchWithError(`${API_BASE_URL}/api/v1/users/${userId}`, {
-        method: "DELETE",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      setUsers((prev) => prev.filter((item) => item.id !== userId));
+      await deleteUserRequest(userId);
+      queryCache.setData<UserRead[]>(usersKey, (prev = []) => prev.filter((item) => item.id !== userId));
       setStatus({ type: "success", text: "User deleted successfully." });
     } catch (error) {
       setStatus({
@@ -176,7 +197,7 @@ export default function AdminPage() {
     );
   }
 
-  if (!isAdmin) {
+  if (!canViewUsers) {
     return (
       <main className="mx-auto flex min-h-[60vh] max-w-4xl items-center justify-center px-4">
         <div className="rounded-2xl border border-amber-200 bg-amber-50 px-6 py-5 text-center shadow-sm">
@@ -202,7 +223,7 @@ export default function AdminPage() {
         </div>
         <button
           type="button"
-          onClick={loadUsers}
+          onClick={refreshUsers}
           className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-900 shadow-sm transition hover:border-slate-300 hover:bg-slate-50"
         >
           <RefreshCw className="h-4 w-4" />
@@ -210,16 +231,16 @@ export default function AdminPage() {
         </button>
       </div>
 
-      {status ? (
+      {banner ? (
         <div
           className={`mb-6 flex items-start gap-3 rounded-xl border px-4 py-3 text-sm shadow-sm ${
-            status.type === "success"
+            banner.type === "success"
               ? "border-emerald-200 bg-emerald-50 text-emerald-800"
               : "border-rose-200 bg-rose-50 text-rose-800"
           }`}
         >
-          <span className="text-base font-semibold">{status.type === "success" ? "Success" : "Error"}</span>
-          <p className="leading-relaxed">{status.text}</p>
+          <span className="text-base font-semibold">{banner.type === "success" ? "Success" : "Error"}</span>
+          <p className="leading-relaxed">{banner.text}</p>
         </div>
       ) : null}
 
@@ -252,33 +273,39 @@ export default function AdminPage() {
 
                   <div>
                     {isEditing ? (
-                      <input
-                        type="text"
-                        name="fullName"
-                        value={editForm.fullName}
-                        onChange={handleEditChange}
-                        placeholder="Full name"
-                        className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm shadow-sm focus:border-slate-400 focus:outline-none"
-                      />
+                      <div className="space-y-1">
+                        <input
+                          type="text"
+                          name="fullName"
+                          value={editForm.fullName}
+                          onChange={handleEditChange}
+                          placeholder="Full name"
+                          className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm shadow-sm focus:border-slate-400 focus:outline-none"
+                        />
+                        <FieldError message={fieldErrors.full_name} />
+                      </div>
                     ) : (
                       <p className="font-medium text-slate-800">{record.full_name || "—"}</p>
                     )}
                   </div>
 
                   <div>
-                    {isEditing ? (
-                      <select
-                        name="role"
-                        value={editForm.role}
-                        onChange={handleEditChange}
-                        className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm shadow-sm focus:border-slate-400 focus:outline-none"
-                      >
-                        {roleOptions.map((role) => (
-                          <option key={role} value={role}>
-                            {role.charAt(0).toUpperCase() + role.slice(1)}
-                          </option>
-                        ))}
-                      </select>
+                    {isEditing && canChangeRole ? (
+                      <div className="space-y-1">
+                        <select
+                          name="role"
+                          value={editForm.role}
+                          onChange={handleEditChange}
+                          className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm shadow-sm focus:border-slate-400 focus:outline-none"
+                        >
+                          {roleOptions.map((role) => (
+                            <option key={role} value={role}>
+                              {role.charAt(0).toUpperCase() + role.slice(1)}
+                            </option>
+                          ))}
+                        </select>
+                        <FieldError message={fieldErrors.role} />
+                      </div>
                     ) : (
                       <span className="inline-flex rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-700">
                         {record.role || "user"}
@@ -286,7 +313,7 @@ export default function AdminPage() {
                     )}
                   </div>
 
-                  <div className="flex items-center justify-end gap-3">
+                  <div className="flex flex-wrap items-center justify-end gap-3">
                     {isEditing ? (
                       <>
                         <button
@@ -306,23 +333,44 @@ export default function AdminPage() {
                       </>
                     ) : (
                       <>
-                        <button
-                          type="button"
-                          onClick={() => startEditing(record)}
-                          className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-800 transition hover:border-slate-300 hover:bg-slate-50"
-                        >
-                          <Pencil className="h-4 w-4" />
-                          Edit
-                        </button>
-                        <button
-                          type="button"
-                          onClick={() => deleteUser(record.id)}
-                          disabled={deletingId === record.id}
-                          className="inline-flex items-center gap-2 rounded-full border border-rose-200 px-4 py-2 text-xs font-semibold text-rose-700 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                          {deletingId === record.id ? "Deleting…" : "Delete"}
-                        </button>
+                        {impersonationAvailable && record.id !== user?.id && record.role !== "admin" ? (
+                          <Can action="users.impersonate">
+                            <button
+                              type="button"
+                              onClick={() => viewAs(record)}
+                              disabled={impersonatingId !== null}
+                              title="See the app the way this user does"
+                              className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-800 transition hover:border-slate-300 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+                            >
+                              <Eye className="h-4 w-4" />
+                              {impersonatingId === record.id ? "Switching…" : "View as"}
+                            </button>
+                          </Can>
+                        ) : null}
+                        {/* Moderators cannot edit administrators; the backend refuses it too. */}
+                        {canChangeRole || record.role !== "admin" ? (
+                          <Can action="users.edit">
+                            <button
+                              type="button"
+                              onClick={() => startEditing(record)}
+                              className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-800 transition hover:border-slate-300 hover:bg-slate-50"
+                            >
+                              <Pencil className="h-4 w-4" />
+                              Edit
+                            </button>
+                          </Can>
+                        ) : null}
+                        <Can action="users.delete">
+                          <button
+                            type="button"
+                            onClick={() => deleteUser(record.id)}
+                            disabled={deletingId === record.id}
+                            className="inline-flex items-center gap-2 rounded-full border border-rose-200 px-4 py-2 text-xs font-semibold text-rose-700 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-60"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            {deletingId === record.id ? "Deleting…" : "Delete"}
+                          </button>
+                        </Can>
                       </>
                     )}
                   </div>
@@ -332,6 +380,40 @@ export default function AdminPage() {
           </ul>
         )}
       </div>
+
+      {canImpersonate ? (
+        <section className="mt-8 rounded-2xl border border-slate-200 bg-white shadow-sm">
+          <h2 className="inline-flex items-center gap-2 border-b border-slate-200 px-6 py-4 text-lg font-semibold text-slate-900">
+            <History className="h-5 w-5 text-slate-500" />
+            Impersonation log
+          </h2>
+          {!impersonationAvailable ? (
+            <p className="px-6 py-6 text-sm text-slate-600">Viewing the app as another user is not available yet.</p>
+          ) : impersonationsError ? (
+            <p className="px-6 py-6 text-sm text-rose-700">
+              {impersonationsError instanceof Error ? impersonationsError.message : "Unable to load the impersonation log."}
+            </p>
+          ) : impersonations.length === 0 ? (
+            <p className="px-6 py-6 text-sm text-slate-600">Nobody has viewed the app as another user yet.</p>
+          ) : (
+            <ul className="divide-y divide-slate-200 text-sm text-slate-700">
+              {impersonations.map((record) => (
+                <li key={record.id} className="flex flex-wrap items-center justify-between gap-2 px-6 py-3">
+                  <p>
+                    <span className="font-semibold text-slate-900">{emailsById.get(record.admin_id) ?? record.admin_id}</span>{" "}
+                    viewed as{" "}
+                    <span className="font-semibold text-slate-900">{emailsById.get(record.user_id) ?? record.user_id}</span>
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {formatDateTime(record.started_at)} –{" "}
+                    {record.ended_at ? formatDateTime(record.ended_at) : <span className="font-semibold text-amber-700">active</span>}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      ) : null}
     </main>
   );
 }
@@ -0,0 +1,61 @@
+import { readCurrentUser } from "@/lib/api-client";
+import { crossOriginResponse, errorResponse, isSameOrigin } from "@/lib/bff";
+import { endImpersonation, startImpersonation, type ImpersonationCreate } from "@/lib/proposed-api";
+import {
+  clearImpersonationCookie,
+  getImpersonation,
+  getSessionToken,
+  resolveSessionUsers,
+  setImpersonationCookie,
+  toSessionState,
+} from "@/lib/session";
+
+function notAuthenticated() {
+  return Response.json({ detail: "Not authenticated" }, { status: 401 });
+}
+
+// Starts viewing the app as another user. The backend checks the role and
+// keeps the audit record; the cookie only decides whose view the app renders.
+export async function POST(request: Request) {
+  if (!isSameOrigin(request)) return crossOriginResponse();
+
+  const token = await getSessionToken();
+  if (!token) return notAuthenticated();
+
+  const payload = (await request.json().catch(() => null)) as ImpersonationCreate;
+
+  try {
+    const previous = await getImpersonation();
+    if (previous) await endImpersonation(previous.id, { token, cache: "no-store" });
+
+    const record = await startImpersonation(payload, { token, cache: "no-store" });
+    await setImpersonationCookie(record, token);
+    const users = await resolveSessionUsers(token, {
+      id: record.id,
+      adminId: record.admin_id,
+      userId: record.user_id,
+    });
+    return Response.json(toSessionState(users, token), { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Returns to the administrator's own session.
+export async function DELETE(request: Request) {
+  if (!isSameOrigin(request)) return crossOriginResponse();
+
+  const token = await getSessionToken();
+  if (!token) return notAuthenticated();
+
+  try {
+    const impersonation = await getImpersonation();
+    await clearImpersonationCookie();
+    if (impersonation) await endImpersonation(impersonation.id, { token, cache: "no-store" });
+
+    const user = await readCurrentUser({ token, cache: "no-store" });
+    return Response.json(toSessionState({ user, impersonator: null }, token));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
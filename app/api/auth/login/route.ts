@@ -0,0 +1,19 @@
+import { login, type UserLogin } from "@/lib/api-client";
+import { crossOriginResponse, errorResponse, isSameOrigin } from "@/lib/bff";
+import { getImpersonation, resolveSessionUsers, setSessionCookie, toSessionState } from "@/lib/session";
+
+export async function POST(request: Request) {
+  if (!isSameOrigin(request)) return crossOriginResponse();
+
+  const credentials = (await request.json().catch(() => null)) as UserLogin;
+
+  try {
+    const { access_token: token } = await login(credentials, { cache: "no-store" });
+    // Renewing the session mid-impersonation keeps viewing as the same user.
+    const users = await resolveSessionUsers(token, await getImpersonation());
+    await setSessionCookie(token);
+    return Response.json(toSessionState(users, token));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
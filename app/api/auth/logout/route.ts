@@ -0,0 +1,20 @@
+import { crossOriginResponse, isSameOrigin } from "@/lib/bff";
+import { endImpersonation } from "@/lib/proposed-api";
+import { clearImpersonationCookie, clearSessionCookie, getImpersonation, getSessionToken } from "@/lib/session";
+
+export async function POST(request: Request) {
+  if (!isSameOrigin(request)) return crossOriginResponse();
+
+  // Close the audit record too; signing out should not leave it open.
+  const token = await getSessionToken();
+  const impersonation = await getImpersonation();
+  if (token && impersonation) {
+    await endImpersonation(impersonation.id, { token, cache: "no-store" }).catch((error) => {
+      console.error("Failed to end impersonation", error);
+    });
+  }
+
+  await clearImpersonationCookie();
+  await clearSessionCookie();
+  return new Response(null, { status: 204 });
+}
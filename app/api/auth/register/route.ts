@@ -0,0 +1,27 @@
+import { login, registerUser, type UserCreate } from "@/lib/api-client";
+import { crossOriginResponse, errorResponse, isSameOrigin } from "@/lib/bff";
+import { setSessionCookie, toSessionState } from "@/lib/session";
+
+export async function POST(request: Request) {
+  if (!isSameOrigin(request)) return crossOriginResponse();
+
+  const body = (await request.json().catch(() => null)) as Partial<UserCreate> | null;
+  // Only these fields are forwarded; a `role` in the body must never reach the backend.
+  const payload = {
+    email: body?.email,
+    password: body?.password,
+    full_name: body?.full_name,
+  } as UserCreate;
+
+  try {
+    const user = await registerUser(payload, { cache: "no-store" });
+    const { access_token: token } = await login(
+      { email: payload.email, password: payload.password },
+      { cache: "no-store" },
+    );
+    await setSessionCookie(token);
+    return Response.json(toSessionState({ user, impersonator: null }, token), { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { errorResponse } from "@/lib/bff";
+import {
+  clearImpersonationCookie,
+  clearSessionCookie,
+  getImpersonation,
+  getSessionToken,
+  getSessionUsers,
+  toSessionState,
+} from "@/lib/session";
+
+export const dynamic = "force-dynamic";
+
+// Lets the browser learn who is signed in, and until when, without ever
+// reading the token.
+export async function GET() {
+  try {
+    const token = await getSessionToken();
+    const users = await getSessionUsers();
+    if (!users && token) await clearSessionCookie();
+    if (!users?.impersonator && (await getImpersonation())) await clearImpersonationCookie();
+    return Response.json(toSessionState(users, token));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
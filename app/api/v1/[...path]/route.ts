@@ -0,0 +1,86 @@
+import type { NextRequest } from "next/server";
+
+import { apiConfig } from "@/lib/config";
+import { crossOriginResponse, isSameOrigin } from "@/lib/bff";
+import { clearSessionCookie, getImpersonation, getSessionToken } from "@/lib/session";
+
+export const dynamic = "force-dynamic";
+
+// Token-issuing endpoints go through app/api/auth, which keeps the JWT in an
+// HttpOnly cookie instead of handing it to the browser.
+const sessionPaths = ["/api/v1/auth/login", "/api/v1/auth/register"];
+
+const forwardedRequestHeaders = ["accept", "content-type"];
+const forwardedResponseHeaders = ["content-type", "retry-after", "www-authenticate"];
+
+/**
+ * Decodes the request path once so the session check sees the route the
+ * backend will match, and re-encodes it for the upstream URL. The trailing
+ * slash is kept as received (see `skipTrailingSlashRedirect` in
+ * next.config.ts). Returns null for malformed escapes, encoded slashes and dot
+ * segments.
+ */
+function normalizePath(rawPathname: string) {
+  let segments: string[];
+  try {
+    segments = rawPathname.split("/").map((segment) => decodeURIComponent(segment));
+  } catch {
+    return null;
+  }
+  if (segments.some((segment) => segment === "." || segment === ".." || segment.includes("/"))) return null;
+
+  return { decoded: segments.join("/"), encoded: segments.map(encodeURIComponent).join("/") };
+}
+
+// Same-origin proxy for the backend's /api/v1 routes: the session cookie is
+// turned into a bearer token here, so the browser only ever sees the cookie.
+async function handle(request: NextRequest) {
+  const { pathname: rawPathname, search } = new URL(request.url);
+  const path = normalizePath(rawPathname);
+
+  if (!path) return Response.json({ detail: "Invalid path" }, { status: 400 });
+  if (sessionPaths.includes(path.decoded.replace(/\/+$/, ""))) {
+    return Response.json({ detail: "Use /api/auth to sign in" }, { status: 404 });
+  }
+  if (request.method !== "GET" && !isSameOrigin(request)) return crossOriginResponse();
+
+  // Requests still carry the administrator's token while they view the app as
+  // someone else, so writes would act as the administrator. Keep it read-only.
+  if (request.method !== "GET" && (await getImpersonation())) {
+    return Response.json({ detail: "Changes are disabled while viewing as another user." }, { status: 403 });
+  }
+
+  const headers = new Headers();
+  forwardedRequestHeaders.forEach((name) => {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+
+  const token = await getSessionToken();
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${apiConfig.backendBaseUrl}${path.encoded}${search}`, {
+      method: request.method,
+      headers,
+      body: request.method === "GET" ? undefined : await request.arrayBuffer(),
+      cache: "no-store",
+      signal: request.signal,
+    });
+  } catch {
+    return Response.json({ detail: "Unable to reach the backend." }, { status: 502 });
+  }
+
+  if (upstream.status === 401 && token) await clearSessionCookie();
+
+  const responseHeaders = new Headers();
+  forwardedResponseHeaders.forEach((name) => {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  });
+
+  return new Response(upstream.body, { status: upstream.status, headers: responseHeaders });
+}
+
+export { handle as DELETE, handle as GET, handle as PATCH, handle as POST, handle as PUT };
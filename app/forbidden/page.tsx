@@ -0,0 +1,46 @@
+import Link from "next/link";
+import { Shield } from "lucide-react";
+
+const messages: Record<string, string> = {
+  role: "This area is limited to administrators and moderators.",
+  owner: "Only the owner of this listing, or an administrator, can change it.",
+};
+
+// Rendered with a 403 status by proxy.ts when a signed-in user opens a page
+// they are not allowed to see.
+export default async function ForbiddenPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ reason?: string | string[] }>;
+}) {
+  const { reason } = await searchParams;
+  const message = messages[Array.isArray(reason) ? reason[0] : reason ?? ""];
+
+  return (
+    <main className="mx-auto flex min-h-[60vh] max-w-4xl items-center justify-center px-4">
+      <div className="rounded-2xl border border-amber-200 bg-amber-50 px-6 py-5 text-center shadow-sm">
+        <Shield className="mx-auto mb-3 h-10 w-10 text-amber-500" />
+        <p className="text-xs font-semibold uppercase tracking-wide text-amber-600">Error 403</p>
+        <h1 className="text-lg font-semibold text-amber-800">Access restricted</h1>
+        <p className="mt-2 text-sm text-amber-700">
+          {message ?? "You do not have permission to view this page."} If you believe this is a mistake, please contact
+          support.
+        </p>
+        <div className="mt-4 flex justify-center gap-3">
+          <Link
+            href="/listings"
+            className="rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800"
+          >
+            Browse listings
+          </Link>
+          <Link
+            href="/"
+            className="rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:bg-slate-50"
+          >
+            Go home
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { useAuth } from "@/components/auth-provider";
+import { FieldError } from "@/components/field-error";
+import { getFieldErrors, getFormErrorMessage, type FieldErrors } from "@/lib/api";
+import { isUnavailable } from "@/lib/proposed-api";
+
+export default function ForgotPasswordPage() {
+  const { requestPasswordReset } = useAuth();
+  const [email, setEmail] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setFieldErrors({});
+    setSubmitting(true);
+
+    try {
+      await requestPasswordReset(email);
+      setSentTo(email);
+    } catch (err) {
+      setFieldErrors(getFieldErrors(err));
+      setError(
+        isUnavailable(err)
+          ? "Password reset is not available yet. Contact support to regain access to your account."
+          : getFormErrorMessage(err, "Unable to request a password reset."),
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="mx-auto flex max-w-md flex-col gap-6 px-4 pb-20 pt-12">
+      <div className="space-y-2 text-center">
+        <p className="text-sm font-semibold uppercase tracking-wide text-slate-500">Account recovery</p>
+        <h1 className="text-3xl font-bold text-slate-900">Reset your password</h1>
+        <p className="text-sm text-slate-600">Enter the email you signed up with and we&apos;ll send you a reset link.</p>
+      </div>
+
+      {sentTo ? (
+        <div className="space-y-3 rounded-2xl border border-emerald-200 bg-emerald-50 p-6 text-sm text-emerald-800 shadow-sm">
+          <p className="font-semibold">Check your inbox</p>
+          <p>
+            If an account exists for <span className="font-semibold">{sentTo}</span>, it will receive an email with a link
+            to choose a new password. The link expires in 30 minutes.
+          </p>
+          <button
+            type="button"
+            onClick={() => setSentTo(null)}
+            className="font-semibold text-emerald-900 underline"
+          >
+            Use a different email
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="space-y-2">
+            <label htmlFor="email" className="text-sm font-semibold text-slate-900">
+              Email
+            </label>
+            <input
+              id="email"
+              name="email"
+              type="email"
+              required
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
+              placeholder="you@example.com"
+            />
+            <FieldError message={fieldErrors.email} />
+          </div>
+
+          {error ? (
+            <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm font-semibold text-red-700">{error}</p>
+          ) : null}
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-70"
+          >
+            {submitting ? "Sending..." : "Send reset link"}
+          </button>
+        </form>
+      )}
+
+      <p className="text-center text-sm text-slate-600">
+        Remembered it?{" "}
+        <Link href="/login" className="font-semibold text-slate-900 hover:underline">
+          Back to login
+        </Link>
+        .
+      </p>
+    </main>
+  );
+}
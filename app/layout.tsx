@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import "./globals.css";
 import { SiteHeader } from "@/components/site-header";
 import { AuthProvider } from "@/components/auth-provider";
+import { CompareTray } from "@/components/compare-tray";
+import { SavedListingsProvider } from "@/components/saved-listings-provider";
 
 export const metadata: Metadata = {
   title: "PropertySystems | Real estate reimagined",
@@ -22,10 +24,13 @@ export default function RootLayout({
     <html lang="en">
       <body className="antialiased bg-gradient-to-b from-slate-50 to-white text-slate-900">
         <AuthProvider>
-          <div className="min-h-screen">
-            <SiteHeader />
-            {children}
-          </div>
+          <SavedListingsProvider>
+            <div className="min-h-screen">
+              <SiteHeader />
+              {children}
+            </div>
+            <CompareTray />
+          </SavedListingsProvider>
         </AuthProvider>
       </body>
     </html>
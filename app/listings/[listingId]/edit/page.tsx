@@ -3,17 +3,31 @@
 import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
 import type React from "react";
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
 import { AlertCircle, ArrowLeft, Loader2, Save, Trash2 } from "lucide-react";
 
 import { useAuth } from "@/components/auth-provider";
-import { API_BASE_URL, fetchWithError } from "@/lib/api";
+import { CityCombobox } from "@/components/city-combobox";
+import { FieldError } from "@/components/field-error";
+import { useCan } from "@/hooks/use-can";
+import { getFieldErrors, getFormErrorMessage, type FieldErrors } from "@/lib/api";
+import {
+  deleteListing,
+  getListing,
+  listingTypeOptions,
+  propertyTypeOptions,
+  updateListing,
+  type ListingType,
+  type PropertyType,
+} from "@/lib/api-client";
+import { normalizeCity } from "@/lib/cities";
+import { queryCache } from "@/lib/query-cache";
 
 type ListingFormState = {
   title: string;
   description: string;
-  propertyType: "apartment" | "house" | "land" | "office";
-  listingType: "sale" | "rent";
+  propertyType: PropertyType;
+  listingType: ListingType;
   price: string;
   currency: string;
   city: string;
@@ -21,34 +35,11 @@ type ListingFormState = {
   rooms: string;
 };
 
-type ListingRead = {
-  id: string;
-  title: string;
-  description: string | null;
-  property_type: ListingFormState["propertyType"];
-  listing_type: ListingFormState["listingType"];
-  price: number;
-  currency: string;
-  city: string;
-  area_sqm: number;
-  rooms: number;
-  user_id: string;
-};
-
 type StatusMessage = {
   type: "success" | "error";
   text: string;
 };
 
-const propertyTypeOptions: ListingFormState["propertyType"][] = [
-  "apartment",
-  "house",
-  "land",
-  "office",
-];
-
-const listingTypeOptions: ListingFormState["listingType"][] = ["sale", "rent"];
-
 const initialFormState: ListingFormState = {
   title: "",
   description: "",
@@ -65,20 +56,18 @@ export default function EditListingPage() {
   const params = useParams<{ listingId: string }>();
   const router = useRouter();
   const listingId = Array.isArray(params.listingId) ? params.listingId[0] : params.listingId;
-  const { token, user } = useAuth();
+  const { user } = useAuth();
 
   const [form, setForm] = useState<ListingFormState>(initialFormState);
   const [status, setStatus] = useState<StatusMessage | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [listingOwnerId, setListingOwnerId] = useState<string | null>(null);
 
-  const canManage = useMemo(() => {
-    if (!user) return false;
-    if (["admin", "moderator"].includes(user.role ?? "")) return true;
-    return listingOwnerId === user.id;
-  }, [listingOwnerId, user]);
+  const can = useCan();
+  const canManage = listingOwnerId !== null && can("listings.manage", { user_id: listingOwnerId });
 
   useEffect(() => {
     if (!listingId) return;
@@ -87,13 +76,8 @@ export default function EditListingPage() {
     const loadListing = async () => {
       setLoading(true);
       try {
-        const listing = await fetchWithError<ListingRead>(
-          `${API_BASE_URL}/api/v1/listings/${listingId}`,
-          {
-            signal: controller.signal,
-            headers: token ? { Authorization: `Bearer ${token}` } : undefined,
-          },
-        );
+        const listing = await queryCache.fetch(["listing", listingId], () => getListing(listingId));
+        if (controller.signal.aborted) return;
 
         setForm({
           title: listing.title,
@@ -124,7 +108,7 @@ export default function EditListingPage() {
     loadListing();
 
     return () => controller.abort();
-  }, [listingId, token]);
+  }, [listingId]);
 
   const handleChange = (
     event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>,
@@ -164,10 +148,11 @@ export default function EditListingPage() {
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setStatus(null);
+    setFieldErrors({});
 
     if (!listingId) return;
 
-    if (!token) {
+    if (!user) {
       setStatus({ type: "error", text: "Please log in to update a listing." });
       return;
     }
@@ -197,27 +182,20 @@ export default function EditListingPage() {
       listing_type: form.listingType,
       price: priceValue,
       currency: currencyValue,
-      city: form.city.trim(),
+      city: normalizeCity(form.city),
       area_sqm: areaValue,
       rooms: roomsValue,
     };
 
     try {
-      await fetchWithError(`${API_BASE_URL}/api/v1/listings/${listingId}` as const, {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify(payload),
-      });
+      const updated = await updateListing(listingId, payload);
+      queryCache.setData(["listing", listingId], updated);
+      queryCache.invalidate(["listings"]);
 
       setStatus({ type: "success", text: "Listing updated successfully." });
     } catch (error) {
-      setStatus({
-        type: "error",
-        text: error instanceof Error ? error.message : "Failed to update listing.",
-      });
+      setFieldErrors(getFieldErrors(error));
+      setStatus({ type: "error", text: getFormErrorMessage(error, "Failed to update listing.") });
     } finally {
       setSaving(false);
     }
@@ -228,7 +206,7 @@ export default function EditListingPage() {
 
     if (!listingId) return;
 
-    if (!token) {
+    if (!user) {
       setStatus({ type: "error", text: "Please log in to delete a listing." });
       return;
     }
@@ -247,10 +225,9 @@ export default function EditListingPage() {
     setDeleting(true);
 
     try {
-      await fetchWithError(`${API_BASE_URL}/api/v1/listings/${listingId}` as const, {
-        method: "DELETE",
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      await deleteListing(listingId);
+      queryCache.remove(["listing", listingId]);
+      queryCache.invalidate(["listings"]);
 
       setStatus({ type: "success", text: "Listing deleted. Redirecting to listings..." });
       router.push("/listings");
@@ -264,7 +241,7 @@ export default function EditListingPage() {
     }
   };
 
-  const formDisabled = saving || deleting || !token || !canManage;
+  const formDisabled = saving || deleting || !user || !canManage;
 
   if (loading) {
     return (
@@ -329,19 +306,21 @@ export default function EditListingPage() {
               placeholder="Modern apartment in the city center"
               required
             />
+            <FieldError message={fieldErrors.title} />
           </label>
 
           <label className="space-y-1 text-sm font-semibold text-slate-900">
             City
-            <input
+            <CityCombobox
               name="city"
               value={form.city}
-              onChange={handleChange}
+              onChange={(city) => setForm((prev) => ({ ...prev, city }))}
               disabled={formDisabled}
               className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200 disabled:cursor-not-allowed disabled:bg-slate-50"
               placeholder="San Francisco"
               required
             />
+            <FieldError message={fieldErrors.city} />
           </label>
         </div>
 
@@ -356,6 +335,7 @@ export default function EditListingPage() {
             className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200 disabled:cursor-not-allowed disabled:bg-slate-50"
             placeholder="Highlight the key selling points of the property."
           />
+          <FieldError message={fieldErrors.description} />
         </label>
 
         <div className="grid gap-4 md:grid-cols-2">
@@ -374,6 +354,7 @@ export default function EditListingPage() {
                 </option>
               ))}
             </select>
+            <FieldError message={fieldErrors.property_type} />
           </label>
 
           <label className="space-y-1 text-sm font-semibold text-slate-900">
@@ -391,6 +372,7 @@ export default function EditListingPage() {
                 </option>
               ))}
             </select>
+            <FieldError message={fieldErrors.listing_type} />
           </label>
         </div>
 
@@ -408,6 +390,7 @@ export default function EditListingPage() {
               placeholder="250000"
               required
             />
+            <FieldError message={fieldErrors.price} />
           </label>
 
           <label className="space-y-1 text-sm font-semibold text-slate-900">
@@ -423,6 +406,7 @@ export default function EditListingPage() {
               minLength={3}
               required
             />
+            <FieldError message={fieldErrors.currency} />
           </label>
 
           <label className="space-y-1 text-sm font-semibold text-slate-900">
@@ -438,6 +422,7 @@ export default function EditListingPage() {
               placeholder="3"
               required
             />
+            <FieldError message={fieldErrors.rooms} />
           </label>
         </div>
 
@@ -455,6 +440,7 @@ export default function EditListingPage() {
               placeholder="85"
               required
             />
+            <FieldError message={fieldErrors.area_sqm} />
           </label>
 
           <label className="space-y-1 text-sm font-semibold text-slate-900">
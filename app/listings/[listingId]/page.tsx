@@ -1,30 +1,15 @@
 import Image from "next/image";
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { AlertCircle, ArrowLeft, CalendarClock, Home, MapPin, Ruler, SquareStack } from "lucide-react";
+import { AlertCircle, ArrowLeft, CalendarClock, Home, MapPin, Pencil, Ruler, SquareStack } from "lucide-react";
 
-import { API_BASE_URL, extractErrorMessage } from "@/lib/api";
-
-type ListingImageRead = {
-  id: string;
-  url: string;
-  created_at: string;
-};
-
-type ListingRead = {
-  id: string;
-  title: string;
-  description: string | null;
-  property_type: "apartment" | "house" | "land" | "office";
-  listing_type: "sale" | "rent";
-  price: number;
-  currency: string;
-  city: string;
-  area_sqm: number;
-  rooms: number;
-  created_at: string;
-  images?: ListingImageRead[];
-};
+import { CollectionMenu } from "@/components/collection-menu";
+import { SaveListingButton } from "@/components/save-listing-button";
+import { ApiError } from "@/lib/api";
+import { getListing, type ListingRead } from "@/lib/api-client";
+import { pricePerSqm } from "@/lib/listing-metrics";
+import { can } from "@/lib/permissions";
+import { getSessionUser } from "@/lib/session";
 
 function formatPrice(value: number, currency: string) {
   try {
@@ -53,55 +38,19 @@ type ListingLoadResult = {
 };
 
 async function loadListing(listingId: string): Promise<ListingLoadResult> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 8_000);
-
   try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/listings/${listingId}`, {
-      signal: controller.signal,
-      cache: "no-store",
-    });
-
-    const contentType = response.headers.get("content-type");
-    const hasJson = contentType?.includes("application/json");
-
-    let payload: unknown = null;
-
-    if (response.status !== 204) {
-      if (hasJson) {
-        try {
-          payload = await response.json();
-        } catch {
-          payload = null;
-        }
-      } else {
-        payload = await response.text();
-      }
-    }
-
-    if (response.status === 404) {
+    const listing = await getListing(listingId, { cache: "no-store", policy: { timeoutMs: 8_000 } });
+    return { listing, notFound: false, error: null };
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
       return { listing: null, notFound: true, error: null };
     }
 
-    if (!response.ok) {
-      return {
-        listing: null,
-        notFound: false,
-        error: extractErrorMessage(payload),
-      };
-    }
-
-    return { listing: payload as ListingRead, notFound: false, error: null };
-  } catch (error) {
-    const timedOut = error instanceof DOMException && error.name === "AbortError";
-
     return {
       listing: null,
       notFound: false,
-      error: timedOut ? "Request timed out. Please try again." : "Unable to load listing.",
+      error: error instanceof Error ? error.message : "Unable to load listing.",
     };
-  } finally {
-    clearTimeout(timeout);
   }
 }
 
@@ -150,18 +99,37 @@ export default async function ListingDetailsPage({
     );
   }
 
+  // The session cookie lets this server component act as the signed-in user;
+  // an unreachable backend only hides the edit link.
+  const viewer = await getSessionUser().catch(() => null);
   const coverImage = listing.images?.[0]?.url;
   const galleryImages = listing.images?.slice(1) ?? [];
+  const perSqm = pricePerSqm(listing);
 
   return (
     <main className="mx-auto flex max-w-5xl flex-col gap-8 px-4 pb-16 pt-10">
-      <Link
-        href="/listings"
-        className="inline-flex w-fit items-center gap-2 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:bg-slate-50"
-      >
-        <ArrowLeft className="h-4 w-4" />
-        Back to listings
-      </Link>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Link
+          href="/listings"
+          className="inline-flex w-fit items-center gap-2 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:bg-slate-50"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to listings
+        </Link>
+        <div className="flex flex-wrap items-center gap-2">
+          <SaveListingButton listingId={listing.id} />
+          <CollectionMenu listingId={listing.id} />
+          {can(viewer, "listings.manage", listing) ? (
+            <Link
+              href={`/listings/${listing.id}/edit`}
+              className="inline-flex w-fit items-center gap-2 rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800"
+            >
+              <Pencil className="h-4 w-4" />
+              Edit listing
+            </Link>
+          ) : null}
+        </div>
+      </div>
 
       <article className="overflow-hidden rounded-3xl border border-slate-200 bg-white shadow-sm ring-1 ring-slate-100/50">
         {coverImage ? (
@@ -200,6 +168,9 @@ export default async function ListingDetailsPage({
             <div className="rounded-2xl border border-slate-100 bg-slate-50 p-4 shadow-inner">
               <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Asking price</p>
               <p className="text-2xl font-bold text-slate-900">{formatPrice(listing.price, listing.currency)}</p>
+              {perSqm !== null ? (
+                <p className="text-sm font-semibold text-slate-600">{formatPrice(perSqm, listing.currency)} per sqm</p>
+              ) : null}
             </div>
             <div className="rounded-2xl border border-slate-100 bg-slate-50 p-4 shadow-inner">
               <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Location</p>
@@ -0,0 +1,249 @@
+import Image from "next/image";
+import Link from "next/link";
+import { ArrowLeft, GitCompareArrows } from "lucide-react";
+
+import { RemoveFromCompareButton } from "@/components/remove-from-compare-button";
+import { ApiError } from "@/lib/api";
+import { getListing, type ListingRead } from "@/lib/api-client";
+import { MAX_COMPARED_LISTINGS } from "@/lib/compare-store";
+import { pricePerSqm } from "@/lib/listing-metrics";
+import { cn } from "@/lib/utils";
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function formatPrice(value: number, currency: string) {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(value);
+  } catch {
+    return `${currency} ${value.toLocaleString()}`;
+  }
+}
+
+function formatDate(value: string) {
+  return new Intl.DateTimeFormat("en", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  }).format(new Date(value));
+}
+
+/** Reads `?ids=a,b,c`, keeping at most four distinct, well-formed ids. */
+function parseIds(value: string | string[] | undefined) {
+  const raw = Array.isArray(value) ? value.join(",") : (value ?? "");
+  const ids = raw
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => uuidPattern.test(id));
+  return [...new Set(ids)].slice(0, MAX_COMPARED_LISTINGS);
+}
+
+type CompareColumn = { id: string; listing: ListingRead | null; error: string | null };
+
+async function loadColumn(id: string): Promise<CompareColumn> {
+  try {
+    const listing = await getListing(id, { cache: "no-store", policy: { timeoutMs: 8_000 } });
+    return { id, listing, error: null };
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return { id, listing: null, error: "This listing is no longer available." };
+    }
+    return { id, listing: null, error: error instanceof Error ? error.message : "Unable to load listing." };
+  }
+}
+
+type CompareRow = {
+  label: string;
+  render: (listing: ListingRead) => React.ReactNode;
+  /** Rows with a direction highlight the best value; the rest are informational. */
+  value?: (listing: ListingRead) => number | null;
+  best?: "min" | "max";
+  /** Money rows are only ranked when every listing uses the same currency. */
+  sameCurrencyOnly?: boolean;
+};
+
+const rows: CompareRow[] = [
+  {
+    label: "Price",
+    render: (listing) => formatPrice(listing.price, listing.currency),
+    value: (listing) => listing.price,
+    best: "min",
+    sameCurrencyOnly: true,
+  },
+  { label: "Currency", render: (listing) => listing.currency },
+  {
+    label: "Price per sqm",
+    render: (listing) => {
+      const value = pricePerSqm(listing);
+      return value === null ? "—" : formatPrice(value, listing.currency);
+    },
+    value: pricePerSqm,
+    best: "min",
+    sameCurrencyOnly: true,
+  },
+  {
+    label: "Area",
+    render: (listing) => `${listing.area_sqm} sqm`,
+    value: (listing) => listing.area_sqm,
+    best: "max",
+  },
+  { label: "Rooms", render: (listing) => listing.rooms, value: (listing) => listing.rooms, best: "max" },
+  { label: "Property type", render: (listing) => listing.property_type },
+  { label: "Listing type", render: (listing) => listing.listing_type },
+  { label: "City", render: (listing) => listing.city },
+  { label: "Listed on", render: (listing) => formatDate(listing.created_at) },
+];
+
+/** Ids of the listings holding the best value in a row; empty when the row is not ranked or all values tie. */
+function bestIds(row: CompareRow, listings: ListingRead[]) {
+  const { value: read, best } = row;
+  if (!read || !best || listings.length < 2) return new Set<string>();
+  if (row.sameCurrencyOnly && new Set(listings.map((listing) => listing.currency)).size > 1) {
+    return new Set<string>();
+  }
+
+  const values = listings.flatMap((listing) => {
+    const value = read(listing);
+    return value === null ? [] : [{ id: listing.id, value }];
+  });
+  if (values.length < 2) return new Set<string>();
+
+  const numbers = values.map((entry) => entry.value);
+  const target = best === "min" ? Math.min(...numbers) : Math.max(...numbers);
+  const winners = values.filter((entry) => entry.value === target);
+  return winners.length === values.length ? new Set<string>() : new Set(winners.map((entry) => entry.id));
+}
+
+export default async function CompareListingsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const ids = parseIds((await searchParams).ids);
+  const columns = await Promise.all(ids.map(loadColumn));
+  const listings = columns.flatMap((column) => (column.listing ? [column.listing] : []));
+  const unavailable = columns.filter((column) => !column.listing);
+
+  return (
+    <main className="mx-auto flex max-w-6xl flex-col gap-8 px-4 pb-16 pt-10">
+      <Link
+        href="/listings"
+        className="inline-flex w-fit items-center gap-2 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:bg-slate-50"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        Back to listings
+      </Link>
+
+      <header className="space-y-2">
+        <p className="inline-flex w-fit items-center gap-2 rounded-full bg-slate-900 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white">
+          <GitCompareArrows className="h-4 w-4" /> Compare
+        </p>
+        <h1 className="text-3xl font-bold text-slate-900">Compare listings</h1>
+        <p className="text-base text-slate-600">
+          The best value in each row is highlighted: lowest price and price per sqm, largest area and most rooms.
+        </p>
+      </header>
+
+      {unavailable.map((column) => (
+        <div
+          key={column.id}
+          className="flex items-center justify-between gap-3 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800"
+        >
+          <span>{column.error}</span>
+          <RemoveFromCompareButton
+            listingId={column.id}
+            remainingIds={ids.filter((id) => id !== column.id)}
+          />
+        </div>
+      ))}
+
+      {listings.length < 2 ? (
+        <div className="rounded-2xl border border-slate-200 bg-white px-4 py-6 text-center text-slate-700 shadow-sm">
+          Pick at least two listings with the Compare button on the{" "}
+          <Link href="/listings" className="font-semibold text-slate-900 underline">
+            listings page
+          </Link>{" "}
+          to see them side by side.
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border border-slate-200 bg-white shadow-sm">
+          <table className="w-full min-w-[40rem] table-fixed border-collapse text-sm">
+            <thead>
+              <tr className="align-top">
+                <th className="w-36 p-4 text-left text-xs font-semibold uppercase tracking-wide text-slate-500">Listing</th>
+                {listings.map((listing) => {
+                  const coverImage = listing.images?.[0]?.url;
+                  return (
+                    <th key={listing.id} className="p-4 text-left font-normal">
+                      <div className="space-y-3">
+                        <div className="relative h-32 overflow-hidden rounded-xl bg-slate-100">
+                          {coverImage ? (
+                            <Image
+                              src={coverImage}
+                              alt={listing.title}
+                              fill
+                              sizes="(min-width: 1024px) 250px, 50vw"
+                              className="object-cover"
+                              unoptimized
+                            />
+                          ) : (
+                            <div className="flex h-full items-center justify-center text-xs font-semibold uppercase tracking-wide text-slate-500">
+                              No image
+                            </div>
+                          )}
+                          <div className="absolute right-2 top-2">
+                            <RemoveFromCompareButton
+                              listingId={listing.id}
+                              remainingIds={ids.filter((id) => id !== listing.id)}
+                            />
+                          </div>
+                        </div>
+                        <Link
+                          href={`/listings/${listing.id}`}
+                          className="line-clamp-2 font-semibold text-slate-900 hover:underline"
+                        >
+                          {listing.title}
+                        </Link>
+                      </div>
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const best = bestIds(row, listings);
+                return (
+                  <tr key={row.label} className="border-t border-slate-100">
+                    <th className="p-4 text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      {row.label}
+                    </th>
+                    {listings.map((listing) => (
+                      <td
+                        key={listing.id}
+                        className={cn(
+                          "p-4 font-semibold text-slate-800",
+                          best.has(listing.id) && "bg-emerald-50 text-emerald-800"
+                        )}
+                      >
+                        {row.render(listing)}
+                        {best.has(listing.id) ? (
+                          <span className="ml-2 rounded-full bg-emerald-100 px-2 py-0.5 text-[10px] uppercase tracking-wide">
+                            Best
+                          </span>
+                        ) : null}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -2,17 +2,30 @@
 
 import Link from "next/link";
 import type React from "react";
-import { useMemo, useState } from "react";
+import { useState } from "react";
 import { AlertCircle, CheckCircle2, ImageIcon, Loader2, UploadCloud } from "lucide-react";
 
 import { useAuth } from "@/components/auth-provider";
-import { API_BASE_URL, fetchWithError } from "@/lib/api";
+import { CityCombobox } from "@/components/city-combobox";
+import { FieldError } from "@/components/field-error";
+import { getFieldErrors, getFormErrorMessage, type FieldErrors } from "@/lib/api";
+import { buildLoginHref } from "@/lib/auth-redirect";
+import {
+  createListing,
+  listingTypeOptions,
+  propertyTypeOptions,
+  uploadListingImage,
+  type ListingCreate,
+  type ListingType,
+  type PropertyType,
+} from "@/lib/api-client";
+import { normalizeCity } from "@/lib/cities";
 
 type ListingFormState = {
   title: string;
   description: string;
-  propertyType: "apartment" | "house" | "land" | "office";
-  listingType: "sale" | "rent";
+  propertyType: PropertyType;
+  listingType: ListingType;
   price: string;
   currency: string;
   city: string;
@@ -20,11 +33,6 @@ type ListingFormState = {
   rooms: string;
 };
 
-type ListingResponse = {
-  id: string;
-  title: string;
-};
-
 type UploadStatus = "pending" | "uploading" | "complete" | "error";
 
 type StatusMessage = {
@@ -32,15 +40,6 @@ type StatusMessage = {
   text: string;
 };
 
-const propertyTypeOptions: ListingFormState["propertyType"][] = [
-  "apartment",
-  "house",
-  "land",
-  "office",
-];
-
-const listingTypeOptions: ListingFormState["listingType"][] = ["sale", "rent"];
-
 const initialFormState: ListingFormState = {
   title: "",
   description: "",
@@ -54,17 +53,18 @@ const initialFormState: ListingFormState = {
 };
 
 export default function CreateListingPage() {
-  const { token, user, loading } = useAuth();
+  const { user, loading } = useAuth();
 
   const [form, setForm] = useState<ListingFormState>(initialFormState);
   const [images, setImages] = useState<File[]>([]);
   const [uploadStates, setUploadStates] = useState<Record<string, UploadStatus>>({});
   const [message, setMessage] = useState<StatusMessage | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [createdListingId, setCreatedListingId] = useState<string | null>(null);
   const [createdTitle, setCreatedTitle] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
 
-  const isAuthenticated = useMemo(() => Boolean(token && user), [token, user]);
+  const isAuthenticated = Boolean(user);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(event.target.files ?? []);
@@ -110,8 +110,9 @@ export default function CreateListingPage() {
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setMessage(null);
+    setFieldErrors({});
 
-    if (!token) {
+    if (!user) {
       setMessage({ type: "error", text: "Please log in to create a listing." });
       return;
     }
@@ -130,27 +131,20 @@ export default function CreateListingPage() {
     const roomsValue = Number(form.rooms);
     const currencyValue = form.currency.trim().toUpperCase();
 
-    const payload = {
+    const payload: ListingCreate = {
       title: form.title.trim(),
       description: form.description.trim() || null,
       property_type: form.propertyType,
       listing_type: form.listingType,
       price: priceValue,
       currency: currencyValue,
-      city: form.city.trim(),
+      city: normalizeCity(form.city),
       area_sqm: areaValue,
       rooms: roomsValue,
     };
 
     try {
-      const listing = await fetchWithError<ListingResponse>(`${API_BASE_URL}/api/v1/listings`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify(payload),
-      });
+      const listing = await createListing(payload);
 
       setCreatedListingId(listing.id);
       setCreatedTitle(listing.title);
@@ -170,17 +164,9 @@ export default function CreateListingPage() {
 
       for (const file of images) {
         setUploadStates((prev) => ({ ...prev, [file.name]: "uploading" }));
-        const formData = new FormData();
-        formData.append("file", file);
 
         try {
-          await fetchWithError(`${API_BASE_URL}/api/v1/listings/${listing.id}/images`, {
-            method: "POST",
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-            body: formData,
-          });
+          await uploadListingImage(listing.id, { file });
           setUploadStates((prev) => ({ ...prev, [file.name]: "complete" }));
         } catch (error) {
           uploadErrors.push(`${file.name}: ${error instanceof Error ? error.message : "Upload failed"}`);
@@ -199,10 +185,8 @@ export default function CreateListingPage() {
         setImages([]);
       }
     } catch (error) {
-      setMessage({
-        type: "error",
-        text: error instanceof Error ? error.message : "Failed to create the listing.",
-      });
+      setFieldErrors(getFieldErrors(error));
+      setMessage({ type: "error", text: getFormErrorMessage(error, "Failed to create the listing.") });
     } finally {
       setSubmitting(false);
     }
@@ -220,7 +204,7 @@ export default function CreateListingPage() {
         {!isAuthenticated && !loading ? (
           <p className="inline-flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm font-semibold text-amber-800">
             <AlertCircle className="h-4 w-4" />
-            You need to be logged in to publish a listing. <Link href="/login" className="underline">Log in</Link> or{" "}
+            You need to be logged in to publish a listing. <Link href={buildLoginHref("/listings/create")} className="underline">Log in</Link> or{" "}
             <Link href="/register" className="underline">create an account</Link>.
           </p>
         ) : null}
@@ -245,20 +229,22 @@ export default function CreateListingPage() {
                 placeholder="Modern loft near downtown"
                 className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
               />
+              <FieldError message={fieldErrors.title} />
             </div>
             <div className="space-y-2">
               <label htmlFor="city" className="text-sm font-semibold text-slate-900">
                 City
               </label>
-              <input
+              <CityCombobox
                 id="city"
                 name="city"
                 required
                 value={form.city}
-                onChange={handleChange}
+                onChange={(city) => setForm((prev) => ({ ...prev, city }))}
                 placeholder="San Francisco"
                 className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
               />
+              <FieldError message={fieldErrors.city} />
             </div>
           </div>
 
@@ -275,6 +261,7 @@ export default function CreateListingPage() {
               placeholder="Highlight the layout, nearby amenities, and standout finishes."
               className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
             />
+            <FieldError message={fieldErrors.description} />
           </div>
 
           <div className="grid gap-4 md:grid-cols-3">
@@ -295,6 +282,7 @@ export default function CreateListingPage() {
                   </option>
                 ))}
               </select>
+              <FieldError message={fieldErrors.property_type} />
             </div>
             <div className="space-y-2">
               <label htmlFor="listingType" className="text-sm font-semibold text-slate-900">
@@ -313,6 +301,7 @@ export default function CreateListingPage() {
                   </option>
                 ))}
               </select>
+              <FieldError message={fieldErrors.listing_type} />
             </div>
             <div className="space-y-2">
               <label htmlFor="currency" className="text-sm font-semibold text-slate-900">
@@ -326,6 +315,7 @@ export default function CreateListingPage() {
                 onChange={handleChange}
                 className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm uppercase text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
               />
+              <FieldError message={fieldErrors.currency} />
             </div>
           </div>
 
@@ -345,6 +335,7 @@ export default function CreateListingPage() {
                 onChange={handleChange}
                 className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
               />
+              <FieldError message={fieldErrors.price} />
             </div>
             <div className="space-y-2">
               <label htmlFor="areaSqm" className="text-sm font-semibold text-slate-900">
@@ -361,6 +352,7 @@ export default function CreateListingPage() {
                 onChange={handleChange}
                 className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
               />
+              <FieldError message={fieldErrors.area_sqm} />
             </div>
             <div className="space-y-2">
               <label htmlFor="rooms" className="text-sm font-semibold text-slate-900">
@@ -377,6 +369,7 @@ export default function CreateListingPage() {
                 onChange={handleChange}
                 className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
               />
+              <FieldError message={fieldErrors.rooms} />
             </div>
           </div>
 
@@ -490,7 +483,7 @@ export default function CreateListingPage() {
           <div className="space-y-3 rounded-xl bg-slate-50 p-4 text-sm text-slate-700">
             <div className="flex items-center gap-2">
               <CheckCircle2 className="h-4 w-4 text-emerald-600" />
-              <span>Requires bearer token authentication.</span>
+              <span>Requires a signed-in session.</span>
             </div>
             <div className="flex items-center gap-2">
               <CheckCircle2 className="h-4 w-4 text-emerald-600" />
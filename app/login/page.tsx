@@ -1,12 +1,25 @@
 "use client";
 
 import Link from "next/link";
-import { useRouter } from "next/navigation";
-import { useState, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useState, useEffect } from "react";
 import { useAuth } from "@/components/auth-provider";
+import { sanitizeReturnTo } from "@/lib/auth-redirect";
 
 export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
+
+function LoginForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const returnTo = sanitizeReturnTo(searchParams.get("returnTo"));
+  const sessionExpired = searchParams.get("reason") === "expired";
+  const passwordReset = searchParams.get("reset") === "success";
   const { login, user, loading } = useAuth();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -15,9 +28,9 @@ export default function LoginPage() {
 
   useEffect(() => {
     if (user) {
-      router.replace("/");
+      router.replace(returnTo);
     }
-  }, [router, user]);
+  }, [returnTo, router, user]);
 
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -27,7 +40,7 @@ export default function LoginPage() {
     try {
       await login(email, password);
       setSuccess("Logged in successfully. Redirecting...");
-      router.push("/");
+      router.push(returnTo);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unable to login.");
     }
@@ -41,6 +54,18 @@ export default function LoginPage() {
         <p className="text-sm text-slate-600">Access your listings, saved searches, and more.</p>
       </div>
 
+      {sessionExpired ? (
+        <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm font-semibold text-amber-800">
+          Your session has expired. Log in again to continue where you left off.
+        </p>
+      ) : null}
+
+      {passwordReset ? (
+        <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm font-semibold text-emerald-700">
+          Your password has been reset. Log in with your new password.
+        </p>
+      ) : null}
+
       <form onSubmit={handleSubmit} className="space-y-4 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
         <div className="space-y-2">
           <label htmlFor="email" className="text-sm font-semibold text-slate-900">
@@ -59,9 +84,14 @@ export default function LoginPage() {
         </div>
 
         <div className="space-y-2">
-          <label htmlFor="password" className="text-sm font-semibold text-slate-900">
-            Password
-          </label>
+          <div className="flex items-center justify-between">
+            <label htmlFor="password" className="text-sm font-semibold text-slate-900">
+              Password
+            </label>
+            <Link href="/forgot-password" className="text-xs font-semibold text-slate-600 hover:text-slate-900 hover:underline">
+              Forgot password?
+            </Link>
+          </div>
           <input
             id="password"
             name="password"
@@ -0,0 +1,18 @@
+import { handleMockRequest, isMockApiEnabled } from "@/lib/mock-backend/router";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// Local stand-in for the listings backend, enabled with MOCK_API=1. Point the
+// app at it with API_BASE_URL=http://localhost:3000/mock-api.
+async function handle(request: Request, { params }: RouteContext) {
+  if (!isMockApiEnabled()) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const { path } = await params;
+  return handleMockRequest(request, path);
+}
+
+export { handle as DELETE, handle as GET, handle as PATCH, handle as POST };
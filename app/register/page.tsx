@@ -4,14 +4,20 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 import { useAuth } from "@/components/auth-provider";
+import { FieldError } from "@/components/field-error";
+import { PasswordFields } from "@/components/password-fields";
+import { getFieldErrors, getFormErrorMessage, type FieldErrors } from "@/lib/api";
+import { validateNewPassword } from "@/lib/password-policy";
 
 export default function RegisterPage() {
   const router = useRouter();
   const { register, user, loading } = useAuth();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
   const [fullName, setFullName] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [success, setSuccess] = useState<string | null>(null);
 
   useEffect(() => {
@@ -23,14 +29,22 @@ export default function RegisterPage() {
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setError(null);
+    setFieldErrors({});
     setSuccess(null);
 
+    const passwordErrors = validateNewPassword(password, confirmation, email);
+    if (passwordErrors) {
+      setFieldErrors(passwordErrors);
+      return;
+    }
+
     try {
       await register(email, password, fullName);
       setSuccess("Account created! Redirecting to your dashboard...");
       router.push("/");
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Unable to register.");
+      setFieldErrors(getFieldErrors(err));
+      setError(getFormErrorMessage(err, "Unable to register."));
     }
   };
 
@@ -56,6 +70,7 @@ export default function RegisterPage() {
             className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
             placeholder="Alex Johnson"
           />
+          <FieldError message={fieldErrors.full_name} />
         </div>
 
         <div className="space-y-2">
@@ -72,24 +87,20 @@ export default function RegisterPage() {
             className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
             placeholder="you@example.com"
           />
+          <FieldError message={fieldErrors.email} />
         </div>
 
-        <div className="space-y-2">
-          <label htmlFor="password" className="text-sm font-semibold text-slate-900">
-            Password
-          </label>
-          <input
-            id="password"
-            name="password"
-            type="password"
-            required
-            minLength={8}
-            value={password}
-            onChange={(event) => setPassword(event.target.value)}
-            className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
-            placeholder="At least 8 characters"
-          />
-        </div>
+        <PasswordFields
+          id="password"
+          label="Password"
+          value={password}
+          onChange={setPassword}
+          confirmation={confirmation}
+          onConfirmationChange={setConfirmation}
+          email={email}
+          error={fieldErrors.password}
+          confirmationError={fieldErrors.confirmation}
+        />
 
         {error ? (
           <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm font-semibold text-red-700">{error}</p>
@@ -0,0 +1,92 @@
+"use client";
+
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { useState } from "react";
+import { useAuth } from "@/components/auth-provider";
+import { PasswordFields } from "@/components/password-fields";
+import { ApiError, getFieldErrors, getFormErrorMessage, type FieldErrors } from "@/lib/api";
+import { validateNewPassword } from "@/lib/password-policy";
+
+export default function ResetPasswordPage() {
+  const router = useRouter();
+  const params = useParams<{ token: string }>();
+  const token = Array.isArray(params.token) ? params.token[0] : params.token;
+  const { resetPassword } = useAuth();
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [tokenRejected, setTokenRejected] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setFieldErrors({});
+
+    // The reset token does not reveal the email, so only the other rules apply here.
+    const passwordErrors = validateNewPassword(password, confirmation, null, "new_password");
+    if (passwordErrors) {
+      setFieldErrors(passwordErrors);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await resetPassword(token, password);
+      router.push("/login?reset=success");
+    } catch (err) {
+      setFieldErrors(getFieldErrors(err));
+      setError(getFormErrorMessage(err, "Unable to reset your password."));
+      setTokenRejected(err instanceof ApiError && err.status === 400);
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="mx-auto flex max-w-md flex-col gap-6 px-4 pb-20 pt-12">
+      <div className="space-y-2 text-center">
+        <p className="text-sm font-semibold uppercase tracking-wide text-slate-500">Account recovery</p>
+        <h1 className="text-3xl font-bold text-slate-900">Choose a new password</h1>
+        <p className="text-sm text-slate-600">Pick a password you haven&apos;t used here before.</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <PasswordFields
+          id="password"
+          label="New password"
+          value={password}
+          onChange={setPassword}
+          confirmation={confirmation}
+          onConfirmationChange={setConfirmation}
+          error={fieldErrors.new_password}
+          confirmationError={fieldErrors.confirmation}
+        />
+
+        {error ? (
+          <div className="space-y-1 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            <p className="font-semibold">{error}</p>
+            {tokenRejected ? (
+              <p>
+                Links expire after 30 minutes and work once.{" "}
+                <Link href="/forgot-password" className="font-semibold underline">
+                  Request a new link
+                </Link>
+                .
+              </p>
+            ) : null}
+          </div>
+        ) : null}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {submitting ? "Saving..." : "Set new password"}
+        </button>
+      </form>
+    </main>
+  );
+}
@@ -0,0 +1,304 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { Check, FolderPlus, Heart, Loader2, MapPin, Pencil, Trash2, X } from "lucide-react";
+import { useState } from "react";
+
+import { useAuth } from "@/components/auth-provider";
+import { useSavedListings } from "@/components/saved-listings-provider";
+import { useQuery } from "@/hooks/use-query";
+import { ApiError } from "@/lib/api";
+import { getListing } from "@/lib/api-client";
+import { cn } from "@/lib/utils";
+
+type StatusMessage = {
+  type: "success" | "error";
+  text: string;
+};
+
+const inputClassName =
+  "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200";
+
+function formatPrice(value: number, currency: string) {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(value);
+  } catch {
+    return `${currency} ${value.toLocaleString()}`;
+  }
+}
+
+function SavedListingRow({ listingId, onRemove }: { listingId: string; onRemove: () => void }) {
+  const { data: listing, error, isLoading } = useQuery(["listing", listingId], () => getListing(listingId));
+
+  if (isLoading) {
+    return <li className="h-24 animate-pulse rounded-2xl border border-slate-200 bg-slate-50" />;
+  }
+
+  if (!listing) {
+    const removed = error instanceof ApiError && error.status === 404;
+    return (
+      <li className="flex items-center justify-between gap-3 rounded-2xl border border-dashed border-slate-300 bg-white p-4 text-sm text-slate-600">
+        <span>
+          {removed
+            ? "This listing is no longer available."
+            : error instanceof Error
+              ? error.message
+              : "Unable to load this listing."}
+        </span>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="inline-flex items-center gap-1 rounded-full border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50"
+        >
+          <X className="h-3.5 w-3.5" /> Remove
+        </button>
+      </li>
+    );
+  }
+
+  const coverImage = listing.images?.[0]?.url;
+
+  return (
+    <li className="flex items-center gap-4 rounded-2xl border border-slate-200 bg-white p-3 shadow-sm">
+      <div className="relative h-20 w-28 shrink-0 overflow-hidden rounded-xl bg-slate-100">
+        {coverImage ? (
+          <Image src={coverImage} alt={listing.title} fill sizes="112px" className="object-cover" unoptimized />
+        ) : null}
+      </div>
+      <div className="min-w-0 flex-1 space-y-1">
+        <Link href={`/listings/${listing.id}`} className="block truncate font-semibold text-slate-900 hover:underline">
+          {listing.title}
+        </Link>
+        <p className="text-sm font-semibold text-slate-800">{formatPrice(listing.price, listing.currency)}</p>
+        <p className="inline-flex items-center gap-1 text-xs text-slate-600">
+          <MapPin className="h-3.5 w-3.5" />
+          {listing.city} · {listing.area_sqm} sqm · {listing.rooms} rooms
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={onRemove}
+        aria-label={`Remove ${listing.title} from this collection`}
+        className="inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-full border border-slate-200 text-slate-600 transition hover:border-slate-300 hover:bg-slate-50"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </li>
+  );
+}
+
+export default function SavedListingsPage() {
+  const { user } = useAuth();
+  const { collections, loading, error, setInCollection, createCollection, renameCollection, deleteCollection } =
+    useSavedListings();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+
+  const selected = collections.find((collection) => collection.id === selectedId) ?? collections[0] ?? null;
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setStatus(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setStatus({ type: "error", text: err instanceof Error ? err.message : fallback });
+      return false;
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    await run(async () => {
+      const created = await createCollection(name);
+      setSelectedId(created.id);
+      setNewName("");
+    }, "Unable to create the collection.");
+  };
+
+  const handleRename = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!renaming || !renaming.name.trim()) return;
+    const saved = await run(() => renameCollection(renaming.id, renaming.name.trim()), "Unable to rename the collection.");
+    if (saved) setRenaming(null);
+  };
+
+  const handleDelete = async (collectionId: string, name: string) => {
+    if (!window.confirm(`Delete the "${name}" collection? The listings themselves are not affected.`)) return;
+    const deleted = await run(() => deleteCollection(collectionId), "Unable to delete the collection.");
+    if (deleted) setSelectedId(null);
+  };
+
+  return (
+    <main className="mx-auto flex max-w-6xl flex-col gap-8 px-4 pb-16 pt-10">
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Shortlists</p>
+        <h1 className="text-3xl font-bold text-slate-900">Saved listings</h1>
+        <p className="text-sm text-slate-600">
+          {user
+            ? "Your collections are stored with your account and follow you across devices."
+            : "You are not signed in, so your collections are kept in this browser. They move to your account the next time you log in."}
+        </p>
+      </div>
+
+      {error || status ? (
+        <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm font-semibold text-red-700">
+          {status?.text ?? error}
+        </p>
+      ) : null}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-slate-600">
+          <Loader2 className="h-4 w-4 animate-spin" /> Loading saved listings…
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-[16rem_1fr]">
+          <aside className="space-y-4">
+            <ul className="space-y-1">
+              {collections.map((collection) => (
+                <li key={collection.id}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSelectedId(collection.id);
+                      setRenaming(null);
+                    }}
+                    className={cn(
+                      "flex w-full items-center justify-between rounded-lg px-3 py-2 text-left text-sm font-semibold transition",
+                      selected?.id === collection.id
+                        ? "bg-slate-900 text-white"
+                        : "text-slate-700 hover:bg-slate-100"
+                    )}
+                  >
+                    <span className="truncate">{collection.name}</span>
+                    <span className="text-xs opacity-70">{collection.listing_ids.length}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <form onSubmit={handleCreate} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(event) => setNewName(event.target.value)}
+                maxLength={100}
+                placeholder="New collection"
+                aria-label="New collection name"
+                className={inputClassName}
+              />
+              <button
+                type="submit"
+                disabled={!newName.trim()}
+                aria-label="Create collection"
+                className="inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-lg bg-slate-900 text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                <FolderPlus className="h-4 w-4" />
+              </button>
+            </form>
+          </aside>
+
+          <section className="space-y-4">
+            {selected ? (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  {renaming?.id === selected.id ? (
+                    <form onSubmit={handleRename} className="flex flex-1 items-center gap-2">
+                      <input
+                        type="text"
+                        value={renaming.name}
+                        onChange={(event) => setRenaming({ id: selected.id, name: event.target.value })}
+                        maxLength={100}
+                        aria-label="Collection name"
+                        autoFocus
+                        className={inputClassName}
+                      />
+                      <button
+                        type="submit"
+                        aria-label="Save name"
+                        className="inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-lg bg-slate-900 text-white transition hover:bg-slate-800"
+                      >
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setRenaming(null)}
+                        aria-label="Cancel renaming"
+                        className="inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-lg border border-slate-200 text-slate-700 transition hover:bg-slate-50"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </form>
+                  ) : (
+                    <h2 className="text-xl font-semibold text-slate-900">{selected.name}</h2>
+                  )}
+
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setRenaming({ id: selected.id, name: selected.name })}
+                      className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-800 transition hover:border-slate-300 hover:bg-slate-50"
+                    >
+                      <Pencil className="h-4 w-4" /> Rename
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(selected.id, selected.name)}
+                      className="inline-flex items-center gap-2 rounded-full border border-red-200 px-4 py-2 text-xs font-semibold text-red-700 transition hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" /> Delete
+                    </button>
+                  </div>
+                </div>
+
+                {selected.listing_ids.length ? (
+                  <ul className="space-y-3">
+                    {selected.listing_ids.map((listingId) => (
+                      <SavedListingRow
+                        key={listingId}
+                        listingId={listingId}
+                        onRemove={() =>
+                          run(
+                            () => setInCollection(selected.id, listingId, false),
+                            "Unable to remove the listing."
+                          )
+                        }
+                      />
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="rounded-2xl border border-dashed border-slate-300 bg-white p-6 text-sm text-slate-600">
+                    This collection is empty. Use the collections menu on a listing to add it here.
+                  </p>
+                )}
+              </>
+            ) : (
+              <div className="flex flex-col items-center gap-3 rounded-2xl border border-dashed border-slate-300 bg-white p-10 text-center">
+                <Heart className="h-8 w-8 text-rose-400" />
+                <p className="text-sm text-slate-600">
+                  Nothing saved yet. Tap the heart on any listing to add it to Favorites.
+                </p>
+                <Link
+                  href="/listings"
+                  className="rounded-full bg-slate-900 px-5 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800"
+                >
+                  Browse listings
+                </Link>
+              </div>
+            )}
+          </section>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -1,123 +1,259 @@
 "use client";
 
-import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
 
-import { API_BASE_URL, fetchWithError } from "@/lib/api";
+import type { UserRead } from "@/lib/api-client";
+import { ApiError, setUnauthorizedHandler } from "@/lib/api";
+import { openAuthChannel, type AuthChannel, type AuthMessage } from "@/lib/auth-channel";
+import { buildLoginHref } from "@/lib/auth-redirect";
+import { confirmPasswordReset, requestPasswordReset as requestPasswordResetRequest } from "@/lib/proposed-api";
+import { queryCache } from "@/lib/query-cache";
+import {
+  createSession,
+  endImpersonationSession,
+  endSession,
+  fetchSession,
+  registerSession,
+  signedOutSession,
+  startImpersonationSession,
+  type SessionState,
+} from "@/lib/session-client";
 
-export type AuthUser = {
-  id: string;
-  email: string;
-  full_name?: string | null;
-  role?: string;
-};
+export type AuthUser = UserRead;
 
-const TOKEN_STORAGE_KEY = "propertysystems.access_token";
+// Sessions used to keep the bearer token here; it now lives in an HttpOnly
+// cookie set by app/api/auth, so any leftover copy is removed on load.
+const LEGACY_TOKEN_STORAGE_KEY = "propertysystems.access_token";
 
 type AuthContextState = {
+  /** The effective user; while impersonating, the user being viewed as. */
   user: AuthUser | null;
-  token: string | null;
+  /** The administrator who is viewing the app as `user`, or null. */
+  impersonator: AuthUser | null;
+  /** When the current session's access token expires, as a millisecond timestamp. */
+  expiresAt: number | null;
   loading: boolean;
   refreshUser: () => Promise<void>;
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, fullName?: string) => Promise<void>;
-  logout: () => void;
+  /** Renews the session for the signed-in user without resetting loading state or cached data. */
+  reauthenticate: (password: string) => Promise<void>;
+  /** Asks the backend to email a reset link; resolves the same way whether or not the account exists. */
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (token: string, newPassword: string) => Promise<void>;
+  logout: () => Promise<void>;
+  /** Switches the app to another user's view; only administrators may. */
+  impersonate: (userId: string) => Promise<void>;
+  /** Returns to the administrator's own view. */
+  stopImpersonating: () => Promise<void>;
 };
 
 const AuthContext = createContext<AuthContextState | undefined>(undefined);
 
+// setTimeout overflows above 2^31 - 1 ms (about 24 days); sessions that long are not timed.
+export const MAX_TIMER_DELAY = 2_147_483_647;
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
-  const [token, setToken] = useState<string | null>(null);
+  const [impersonator, setImpersonator] = useState<AuthUser | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
+  const router = useRouter();
+  const userRef = useRef<AuthUser | null>(null);
+  const channelRef = useRef<AuthChannel | null>(null);
 
-  const persistToken = useCallback((value: string | null) => {
-    setToken(value);
-    if (value) {
-      localStorage.setItem(TOKEN_STORAGE_KEY, value);
-    } else {
-      localStorage.removeItem(TOKEN_STORAGE_KEY);
-    }
+  useEffect(() => {
+    userRef.current = user;
+  }, [user]);
+
+  const applySession = useCallback((session: SessionState) => {
+    setUser(session.user);
+    setExpiresAt(session.expiresAt);
+    setImpersonator(session.impersonator);
   }, []);
 
+  const broadcast = useCallback((message: AuthMessage) => {
+    channelRef.current?.post(message);
+  }, []);
+
+  // Other tabs share the cookie, so their login, logout and refresh results
+  // apply here as-is. Incoming messages are never re-broadcast.
+  useEffect(() => {
+    const channel = openAuthChannel((message) => {
+      const session = message.type === "logout" ? signedOutSession : message.session;
+      if (session.user?.id !== userRef.current?.id) queryCache.clear();
+      userRef.current = session.user;
+      applySession(session);
+    });
+    channelRef.current = channel;
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [applySession]);
+
   const refreshUser = useCallback(async () => {
-    if (!token) {
-      setUser(null);
-      return;
-    }
     try {
-      const profile = await fetchWithError<AuthUser>(`${API_BASE_URL}/api/v1/auth/me`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      setUser(profile);
+      const session = await fetchSession();
+      applySession(session);
+      broadcast({ type: "refresh", session });
     } catch (error) {
-      console.error("Failed to refresh user", error);
-      setUser(null);
-      persistToken(null);
-    }
-  }, [persistToken, token]);
-
-  useEffect(() => {
-    const storedToken = localStorage.getItem(TOKEN_STORAGE_KEY);
-    if (storedToken) {
-      persistToken(storedToken);
-    } else {
-      setLoading(false);
+      // Network errors, timeouts and 5xx responses say nothing about the
+      // session, so only a 401 signs the user out; otherwise keep what we have.
+      if (error instanceof ApiError && error.status === 401) {
+        applySession(signedOutSession);
+        broadcast({ type: "logout" });
+      }
     }
-  }, [persistToken]);
+  }, [applySession, broadcast]);
 
   useEffect(() => {
-    if (!token) {
-      setLoading(false);
-      return;
-    }
-
+    localStorage.removeItem(LEGACY_TOKEN_STORAGE_KEY);
     refreshUser().finally(() => setLoading(false));
-  }, [refreshUser, token]);
+  }, [refreshUser]);
 
   const login = useCallback(
     async (email: string, password: string) => {
       setLoading(true);
       try {
-        const data = await fetchWithError<{ access_token: string }>(`${API_BASE_URL}/api/v1/auth/login`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ email, password }),
-        });
-        persistToken(data.access_token);
-        await refreshUser();
+        const session = await createSession({ email, password });
+        queryCache.clear();
+        applySession(session);
+        broadcast({ type: "login", session });
       } finally {
         setLoading(false);
       }
     },
-    [persistToken, refreshUser]
+    [applySession, broadcast]
   );
 
   const register = useCallback(
     async (email: string, password: string, fullName?: string) => {
       setLoading(true);
       try {
-        await fetchWithError(`${API_BASE_URL}/api/v1/auth/register`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ email, password, full_name: fullName ?? null }),
-        });
-
-        await login(email, password);
+        const session = await registerSession({ email, password, full_name: fullName ?? null });
+        queryCache.clear();
+        applySession(session);
+        broadcast({ type: "login", session });
       } finally {
         setLoading(false);
       }
     },
-    [login]
+    [applySession, broadcast]
   );
 
-  const logout = useCallback(() => {
-    setUser(null);
-    persistToken(null);
-  }, [persistToken]);
+  const reauthenticate = useCallback(
+    async (password: string) => {
+      // The session belongs to the administrator, not the user being viewed as.
+      const email = (impersonator ?? userRef.current)?.email;
+      if (!email) throw new Error("There is no session to renew.");
+      const session = await createSession({ email, password });
+      applySession(session);
+      broadcast({ type: "login", session });
+    },
+    [applySession, broadcast, impersonator]
+  );
+
+  const requestPasswordReset = useCallback(async (email: string) => {
+    await requestPasswordResetRequest({ email });
+  }, []);
+
+  const resetPassword = useCallback(async (token: string, newPassword: string) => {
+    await confirmPasswordReset({ token, new_password: newPassword });
+  }, []);
+
+  const logout = useCallback(async () => {
+    applySession(signedOutSession);
+    queryCache.clear();
+    broadcast({ type: "logout" });
+    try {
+      await endSession();
+    } catch (error) {
+      console.error("Failed to end session", error);
+    }
+  }, [applySession, broadcast]);
+
+  // Cached data was loaded for the previous view, so both directions start clean.
+  const switchSession = useCallback(
+    (session: SessionState) => {
+      queryCache.clear();
+      userRef.current = session.user;
+      applySession(session);
+      broadcast({ type: "login", session });
+    },
+    [applySession, broadcast]
+  );
+
+  const impersonate = useCallback(
+    async (userId: string) => {
+      switchSession(await startImpersonationSession(userId));
+    },
+    [switchSession]
+  );
+
+  const stopImpersonating = useCallback(async () => {
+    switchSession(await endImpersonationSession());
+  }, [switchSession]);
+
+  // Drops the session everywhere and sends a signed-in user back through login.
+  const expireSession = useCallback(() => {
+    const wasSignedIn = userRef.current !== null;
+    userRef.current = null;
+    void logout();
+
+    if (wasSignedIn) {
+      router.replace(buildLoginHref(`${window.location.pathname}${window.location.search}`, "expired"));
+    }
+  }, [logout, router]);
+
+  // A 401 from the API means the session cookie expired or was revoked.
+  useEffect(() => {
+    setUnauthorizedHandler(expireSession);
+    return () => setUnauthorizedHandler(null);
+  }, [expireSession]);
+
+  useEffect(() => {
+    if (!user || expiresAt === null) return;
+    const remaining = expiresAt - Date.now();
+    if (remaining > MAX_TIMER_DELAY) return;
+
+    const timer = setTimeout(expireSession, Math.max(0, remaining));
+    return () => clearTimeout(timer);
+  }, [expireSession, expiresAt, user]);
 
   const value = useMemo(
-    () => ({ user, token, loading, refreshUser, login, logout, register }),
-    [loading, login, logout, refreshUser, register, token, user]
+    () => ({
+      user,
+      impersonator,
+      expiresAt,
+      loading,
+      refreshUser,
+      login,
+      logout,
+      register,
+      reauthenticate,
+      requestPasswordReset,
+      resetPassword,
+      impersonate,
+      stopImpersonating,
+    }),
+    [
+      expiresAt,
+      impersonate,
+      impersonator,
+      loading,
+      login,
+      logout,
+      reauthenticate,
+      refreshUser,
+      register,
+      requestPasswordReset,
+      resetPassword,
+      stopImpersonating,
+      user,
+    ]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
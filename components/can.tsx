@@ -0,0 +1,19 @@
+"use client";
+
+import { useCan } from "@/hooks/use-can";
+import type { Capability, ListingResource, ResourceAction } from "@/lib/permissions";
+
+type CanProps = (
+  | { action: Capability; listing?: never }
+  | { action: ResourceAction; listing: ListingResource }
+) & {
+  children: React.ReactNode;
+  /** Rendered instead of `children` when the action is not allowed. */
+  fallback?: React.ReactNode;
+};
+
+export function Can({ action, listing, children, fallback = null }: CanProps) {
+  const can = useCan();
+  const allowed = action === "listings.manage" ? can(action, listing as ListingResource) : can(action as Capability);
+  return <>{allowed ? children : fallback}</>;
+}
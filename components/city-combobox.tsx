@@ -0,0 +1,156 @@
+"use client";
+
+import { Clock, MapPin } from "lucide-react";
+import { useId, useState } from "react";
+
+import { isKnownCity, normalizeCity, readRecentCities, rememberCity, suggestCities } from "@/lib/cities";
+import { cn } from "@/lib/utils";
+
+type CityComboboxProps = {
+  value: string;
+  onChange: (value: string) => void;
+  id?: string;
+  name?: string;
+  placeholder?: string;
+  required?: boolean;
+  disabled?: boolean;
+  /** Classes for the input, so the combobox matches the form it sits in. */
+  className?: string;
+};
+
+/**
+ * City input with suggestions from recent cities, cities seen in results and
+ * the bundled gazetteer. Arrow keys move through the list, Enter picks and
+ * Escape closes it. On blur the value is normalised to a canonical spelling,
+ * so "berlin " and "Berlín" both become "Berlin". Picked suggestions and
+ * typed names of known cities are remembered as recent.
+ */
+export function CityCombobox({
+  value,
+  onChange,
+  id,
+  name,
+  placeholder,
+  required,
+  disabled,
+  className,
+}: CityComboboxProps) {
+  const generatedId = useId();
+  const inputId = id ?? generatedId;
+  const listboxId = `${inputId}-suggestions`;
+
+  const [open, setOpen] = useState(false);
+  const [recent, setRecent] = useState<string[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const suggestions = open ? suggestCities(value, recent) : [];
+  const expanded = suggestions.length > 0;
+
+  const openList = () => {
+    // Read on demand: localStorage is not available while rendering on the server.
+    setRecent(readRecentCities());
+    setOpen(true);
+    setActiveIndex(-1);
+  };
+
+  const commit = (city: string, picked = false) => {
+    const normalized = normalizeCity(city);
+    if (normalized !== value) onChange(normalized);
+    if (normalized && (picked || isKnownCity(normalized))) rememberCity(normalized);
+    setOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      if (!open) {
+        openList();
+        return;
+      }
+      if (!expanded) return;
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      // Moving past either end returns to the typed text (-1) before wrapping.
+      setActiveIndex((index) => {
+        const next = index + step;
+        if (next < -1) return suggestions.length - 1;
+        return next >= suggestions.length ? -1 : next;
+      });
+      return;
+    }
+
+    if (event.key === "Enter" && expanded && activeIndex >= 0) {
+      event.preventDefault();
+      commit(suggestions[activeIndex].city, true);
+      return;
+    }
+
+    if (event.key === "Escape" && open) {
+      event.preventDefault();
+      setOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        id={inputId}
+        name={name}
+        type="text"
+        role="combobox"
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listboxId}
+        aria-activedescendant={expanded && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+        value={value}
+        placeholder={placeholder}
+        required={required}
+        disabled={disabled}
+        onFocus={openList}
+        onChange={(event) => {
+          onChange(event.target.value);
+          setOpen(true);
+          setActiveIndex(-1);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => commit(value)}
+        className={cn(className, "pr-9")}
+      />
+      <MapPin className="pointer-events-none absolute right-3 top-2.5 h-4 w-4 text-slate-400" />
+
+      {expanded ? (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute inset-x-0 z-20 mt-1 max-h-64 overflow-y-auto rounded-xl border border-slate-200 bg-white py-1 text-sm font-normal shadow-lg"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.city}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so blur does not commit the typed text first.
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => commit(suggestion.city, true)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                "flex cursor-pointer items-center gap-2 px-3 py-2 text-slate-800",
+                index === activeIndex && "bg-slate-100"
+              )}
+            >
+              {suggestion.recent ? (
+                <Clock className="h-3.5 w-3.5 text-slate-400" aria-label="Recent" />
+              ) : (
+                <MapPin className="h-3.5 w-3.5 text-slate-400" />
+              )}
+              {suggestion.city}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
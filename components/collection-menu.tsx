@@ -0,0 +1,117 @@
+"use client";
+
+import { ChevronDown, FolderPlus } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+
+import { useSavedListings } from "@/components/saved-listings-provider";
+
+/** Dropdown for filing a listing into any of the visitor's collections, or a new one. */
+export function CollectionMenu({ listingId }: { listingId: string }) {
+  const { collections, loading, setInCollection, createCollection } = useSavedListings();
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("pointerdown", handlePointerDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [open]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setPending(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update collections.");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleCreate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    await run(async () => {
+      await createCollection(name, [listingId]);
+      setNewName("");
+    });
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={loading}
+        aria-expanded={open}
+        className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:border-slate-300 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Collections
+        <ChevronDown className="h-4 w-4" />
+      </button>
+
+      {open ? (
+        <div className="absolute right-0 z-20 mt-2 w-72 space-y-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+          {collections.length ? (
+            <ul className="max-h-60 space-y-1 overflow-y-auto">
+              {collections.map((collection) => (
+                <li key={collection.id}>
+                  <label className="flex cursor-pointer items-center gap-3 rounded-lg px-2 py-1.5 text-sm text-slate-800 hover:bg-slate-50">
+                    <input
+                      type="checkbox"
+                      checked={collection.listing_ids.includes(listingId)}
+                      disabled={pending}
+                      onChange={(event) => run(() => setInCollection(collection.id, listingId, event.target.checked))}
+                      className="h-4 w-4 rounded border-slate-300"
+                    />
+                    <span className="flex-1 truncate font-medium">{collection.name}</span>
+                    <span className="text-xs text-slate-500">{collection.listing_ids.length}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-600">No collections yet.</p>
+          )}
+
+          <form onSubmit={handleCreate} className="flex items-center gap-2 border-t border-slate-100 pt-3">
+            <input
+              type="text"
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              maxLength={100}
+              placeholder="New collection"
+              aria-label="New collection name"
+              className="w-full rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-900 shadow-sm focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
+            />
+            <button
+              type="submit"
+              disabled={pending || !newName.trim()}
+              aria-label="Create collection"
+              className="inline-flex h-8 w-8 shrink-0 items-center justify-center rounded-lg bg-slate-900 text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              <FolderPlus className="h-4 w-4" />
+            </button>
+          </form>
+
+          {error ? <p className="text-xs font-medium text-red-600">{error}</p> : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { GitCompareArrows } from "lucide-react";
+
+import { useCompareTray } from "@/hooks/use-compare-tray";
+import type { ComparedListing } from "@/lib/compare-store";
+import { cn } from "@/lib/utils";
+
+/** Adds a listing card to the compare tray, or takes it out again. */
+export function CompareToggle({ listing }: { listing: ComparedListing }) {
+  const { isCompared, toggle, full } = useCompareTray();
+  const selected = isCompared(listing.id);
+  const disabled = full && !selected;
+
+  return (
+    <button
+      type="button"
+      onClick={() => toggle(listing)}
+      disabled={disabled}
+      aria-pressed={selected}
+      title={disabled ? "The compare tray is full. Remove a listing first." : undefined}
+      className={cn(
+        "inline-flex items-center gap-2 rounded-full border px-4 py-2 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-50",
+        selected
+          ? "border-slate-900 bg-slate-900 text-white hover:bg-slate-800"
+          : "border-slate-200 text-slate-800 hover:border-slate-300 hover:bg-slate-50"
+      )}
+    >
+      <GitCompareArrows className="h-4 w-4" />
+      {selected ? "Comparing" : "Compare"}
+    </button>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { X } from "lucide-react";
+
+import { useCompareTray } from "@/hooks/use-compare-tray";
+import { compareHref, MAX_COMPARED_LISTINGS } from "@/lib/compare-store";
+import { cn } from "@/lib/utils";
+
+/** Floating bar listing the picked listings, with a link to compare them side by side. */
+export function CompareTray() {
+  const pathname = usePathname();
+  const { items, remove, clear } = useCompareTray();
+
+  if (items.length === 0 || pathname === "/listings/compare") return null;
+
+  const ready = items.length >= 2;
+
+  return (
+    <div className="fixed inset-x-0 bottom-4 z-40 px-4">
+      <div className="mx-auto flex max-w-4xl flex-wrap items-center gap-3 rounded-2xl border border-slate-200 bg-white/95 p-3 shadow-lg backdrop-blur">
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Compare {items.length}/{MAX_COMPARED_LISTINGS}
+        </p>
+
+        <ul className="flex flex-1 flex-wrap items-center gap-2">
+          {items.map((item) => (
+            <li
+              key={item.id}
+              className="flex max-w-[12rem] items-center gap-2 rounded-full border border-slate-200 bg-slate-50 py-1 pl-1 pr-2 text-xs font-semibold text-slate-800"
+            >
+              <span className="relative h-6 w-6 shrink-0 overflow-hidden rounded-full bg-slate-200">
+                {item.coverImage ? (
+                  <Image src={item.coverImage} alt="" fill sizes="24px" className="object-cover" unoptimized />
+                ) : null}
+              </span>
+              <span className="truncate">{item.title}</span>
+              <button
+                type="button"
+                onClick={() => remove(item.id)}
+                aria-label={`Remove ${item.title} from comparison`}
+                className="text-slate-500 transition hover:text-slate-900"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={clear}
+            className="rounded-full px-3 py-2 text-xs font-semibold text-slate-600 transition hover:text-slate-900"
+          >
+            Clear
+          </button>
+          <Link
+            href={compareHref(items.map((item) => item.id))}
+            aria-disabled={!ready}
+            title={ready ? undefined : "Pick at least two listings to compare."}
+            onClick={(event) => {
+              if (!ready) event.preventDefault();
+            }}
+            className={cn(
+              "rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold text-white shadow-sm transition hover:bg-slate-800",
+              !ready && "cursor-not-allowed opacity-50"
+            )}
+          >
+            Compare now
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import { useAuth } from "@/components/auth-provider";
+import { deleteListing } from "@/lib/api-client";
+import { queryCache } from "@/lib/query-cache";
+
+export function DeleteListingButton({ listingId }: { listingId: string }) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = async () => {
+    setError(null);
+
+    if (!user) {
+      setError("Please sign in to delete listings.");
+      return;
+    }
+
+    const confirmed = window.confirm("Are you sure you want to delete this listing? This action cannot be undone.");
+    if (!confirmed) return;
+
+    setDeleting(true);
+    try {
+      await deleteListing(listingId);
+      queryCache.remove(["listing", listingId]);
+      queryCache.invalidate(["listings"]);
+      // The results are rendered on the server; fetch them again without the listing.
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete listing.");
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleDelete}
+        disabled={deleting}
+        className="inline-flex items-center gap-2 rounded-full border border-red-200 px-4 py-2 text-xs font-semibold text-red-700 transition hover:border-red-300 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {deleting ? (
+          "Deleting..."
+        ) : (
+          <>
+            <Trash2 className="h-4 w-4" /> Delete
+          </>
+        )}
+      </button>
+      {error ? (
+        <p role="alert" className="basis-full text-xs font-medium text-red-600">
+          {error}
+        </p>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,9 @@
+export function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+
+  return (
+    <p role="alert" className="text-xs font-medium text-red-600">
+      {message}
+    </p>
+  );
+}
@@ -0,0 +1,22 @@
+import { findKeywordRanges } from "@/lib/listing-search";
+
+/** Renders `text` with every occurrence of the search terms marked. */
+export function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  const ranges = findKeywordRanges(text, terms);
+  if (ranges.length === 0) return text;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(({ start, end }) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="rounded bg-amber-100 px-0.5 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { Eye, Loader2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import { useAuth } from "@/components/auth-provider";
+
+export function ImpersonationBanner() {
+  const router = useRouter();
+  const { user, impersonator, stopImpersonating } = useAuth();
+  const [exiting, setExiting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user || !impersonator) return null;
+
+  const handleExit = async () => {
+    setError(null);
+    setExiting(true);
+    try {
+      await stopImpersonating();
+      router.push("/admin");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to exit the impersonation session.");
+    } finally {
+      setExiting(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 text-white">
+      <div
+        role="status"
+        className="mx-auto flex max-w-6xl flex-wrap items-center justify-between gap-3 px-4 py-2 text-sm"
+      >
+        <p className="inline-flex items-center gap-2">
+          <Eye className="h-4 w-4 text-amber-300" />
+          <span>
+            Viewing as <span className="font-semibold">{user.full_name || user.email}</span>
+            <span className="text-slate-300"> ({user.role ?? "user"})</span>. Changes are disabled; signed in as{" "}
+            {impersonator.email}.
+          </span>
+        </p>
+        <div className="flex items-center gap-3">
+          {error ? <p className="text-xs font-semibold text-red-300">{error}</p> : null}
+          <button
+            type="button"
+            onClick={handleExit}
+            disabled={exiting}
+            className="inline-flex items-center gap-2 rounded-full bg-white px-4 py-1.5 text-xs font-semibold text-slate-900 shadow-sm transition hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-70"
+          >
+            {exiting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null}
+            Exit and return to admin
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+"use client";
+
+import { Loader2, RefreshCw } from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+
+import { ListingCard } from "@/components/listing-card";
+import { useCan } from "@/hooks/use-can";
+import { listListings, type ListingListRead, type ListingRead } from "@/lib/api-client";
+import { recordSeenCities } from "@/lib/cities";
+import { buildListingsQuery, filtersToSearchParams, type FiltersState } from "@/lib/listing-filters";
+import { applyPricePerSqmFilters, cityMedianFor, cityMedians, hasPricePerSqmBounds } from "@/lib/listing-metrics";
+import { filterByKeywords, parseKeywords } from "@/lib/listing-search";
+import { queryCache } from "@/lib/query-cache";
+
+// Only the rows near the viewport are mounted; the container keeps the full
+// height so the scrollbar stays honest. Each mounted row is measured, and rows
+// that have not been seen yet count as ESTIMATED_ROW_HEIGHT.
+const ESTIMATED_ROW_HEIGHT = 600;
+const ROW_GAP = 16;
+const OVERSCAN_ROWS = 2;
+/** The viewport is tracked in steps of this many pixels, so scrolling re-renders rarely. */
+const VIEWPORT_STEP = 200;
+
+/** Loaded pages outlive the component for this long, so Back from a listing returns to the same spot. */
+const RESTORE_WINDOW_MS = 5 * 60_000;
+const SCROLL_STORAGE_KEY = "propertysystems.listings-scroll";
+
+type LoadedListings = {
+  items: ListingRead[];
+  /** What the most recent page added to `items`. */
+  lastPage: ListingRead[];
+  total: number;
+  pagesLoaded: number;
+  /** The last page came back short, so there is nothing more to fetch. */
+  exhausted: boolean;
+};
+
+function appendPage(loaded: LoadedListings | null, page: ListingListRead, pageSize: number): LoadedListings {
+  // Listings created while scrolling shift later pages; skip what is already shown.
+  const seen = new Set(loaded?.items.map((item) => item.id));
+  const added = page.items.filter((item) => !seen.has(item.id));
+  return {
+    items: [...(loaded?.items ?? []), ...added],
+    lastPage: added,
+    total: page.total,
+    pagesLoaded: (loaded?.pagesLoaded ?? 0) + 1,
+    exhausted: page.items.length < pageSize,
+  };
+}
+
+// Mirrors the `md:grid-cols-2 lg:grid-cols-3` breakpoints of the paged grid.
+const columnQueries = ["(min-width: 1024px)", "(min-width: 768px)"];
+
+function subscribeColumns(listener: () => void) {
+  const lists = columnQueries.map((query) => window.matchMedia(query));
+  lists.forEach((list) => list.addEventListener("change", listener));
+  return () => lists.forEach((list) => list.removeEventListener("change", listener));
+}
+
+function getColumns() {
+  if (window.matchMedia(columnQueries[0]).matches) return 3;
+  return window.matchMedia(columnQueries[1]).matches ? 2 : 1;
+}
+
+/** The index of the row that contains `y`, given each row's top offset and the total height last. */
+function rowAt(offsets: number[], y: number) {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= y) low = middle;
+    else high = middle - 1;
+  }
+  return Math.max(0, low);
+}
+
+function subscribeViewport(listener: () => void) {
+  window.addEventListener("scroll", listener, { passive: true });
+  window.addEventListener("resize", listener);
+  return () => {
+    window.removeEventListener("scroll", listener);
+    window.removeEventListener("resize", listener);
+  };
+}
+
+/**
+ * The "Infinite scroll" browse mode. Starts from the page the server rendered,
+ * fetches the next one as the end of the list comes into view, and renders
+ * only the rows around the viewport. When the filters applied here hide a whole
+ * page, it stops and offers a "Load more" button instead of fetching on.
+ */
+export function InfiniteListings({ filters, initialPage }: { filters: FiltersState; initialPage: ListingListRead }) {
+  const can = useCan();
+  const query = filtersToSearchParams(filters).toString();
+  const cacheKey = useMemo(() => ["listings", "infinite", query], [query]);
+
+  const [restored] = useState(() =>
+    queryCache.isStale(cacheKey, RESTORE_WINDOW_MS) ? null : (queryCache.getState<LoadedListings>(cacheKey).data ?? null)
+  );
+  const [loaded, setLoaded] = useState(() => restored ?? appendPage(null, initialPage, filters.pageSize));
+  const [error, setError] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadingRef = useRef(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [rowHeights, setRowHeights] = useState<Record<string, number>>({});
+  const resizeObserverRef = useRef<ResizeObserver | null>(null);
+
+  // router.refresh() (e.g. after a delete) renders a new first page: start over from it.
+  const [renderedPage, setRenderedPage] = useState(initialPage);
+  if (initialPage !== renderedPage) {
+    setRenderedPage(initialPage);
+    setLoaded(appendPage(null, initialPage, filters.pageSize));
+  }
+
+  const columns = useSyncExternalStore(subscribeColumns, getColumns, () => 3);
+
+  // "top:bottom" of the viewport within the list, rounded out to VIEWPORT_STEP,
+  // as a string so small scrolls do not re-render.
+  const getViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return `0:${window.innerHeight}`;
+    const top = -container.getBoundingClientRect().top;
+    const from = Math.floor(top / VIEWPORT_STEP) * VIEWPORT_STEP;
+    const to = Math.ceil((top + window.innerHeight) / VIEWPORT_STEP) * VIEWPORT_STEP;
+    return `${from}:${to}`;
+  }, []);
+  const viewport = useSyncExternalStore(subscribeViewport, getViewport, () => `0:${ESTIMATED_ROW_HEIGHT}`);
+  const [viewportTop, viewportBottom] = viewport.split(":").map(Number);
+
+  // Heights are per layout, since the same row holds other cards at another column count.
+  const measureRow = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+    resizeObserverRef.current ??= new ResizeObserver((entries) => {
+      setRowHeights((prev) => {
+        let next = prev;
+        entries.forEach((entry) => {
+          const key = (entry.target as HTMLElement).dataset.rowKey;
+          const height = Math.ceil(entry.borderBoxSize[0]?.blockSize ?? entry.contentRect.height);
+          if (!key || prev[key] === height) return;
+          if (next === prev) next = { ...prev };
+          next[key] = height;
+        });
+        return next;
+      });
+    });
+    const observer = resizeObserverRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  useEffect(
+    () => () => {
+      resizeObserverRef.current?.disconnect();
+      resizeObserverRef.current = null;
+    },
+    []
+  );
+
+  // Keywords are re-checked in case the backend ignores `q`; price-per-sqm
+  // bounds and sorting apply to everything loaded so far.
+  const terms = parseKeywords(filters.keywords);
+  const visible = (listings: ListingRead[]) => applyPricePerSqmFilters(filterByKeywords(listings, terms), filters);
+  const items = visible(loaded.items);
+  const medians = cityMedians(items);
+  const rowCount = Math.ceil(items.length / columns);
+  const offsets = [0];
+  for (let row = 0; row < rowCount; row += 1) {
+    offsets.push(offsets[row] + (rowHeights[`${columns}:${row}`] ?? ESTIMATED_ROW_HEIGHT) + ROW_GAP);
+  }
+  const startRow = Math.max(0, rowAt(offsets, viewportTop) - OVERSCAN_ROWS);
+  const endRow = Math.min(rowCount, rowAt(offsets, viewportBottom) + OVERSCAN_ROWS + 1);
+  const hasMore = !loaded.exhausted && loaded.items.length < loaded.total;
+  const nearEnd = endRow >= rowCount;
+  // Otherwise filters that match nothing would keep fetching until every page is loaded.
+  const stalled = visible(loaded.lastPage).length === 0;
+
+  useEffect(() => {
+    recordSeenCities(loaded.items.map((listing) => listing.city));
+  }, [loaded.items]);
+
+  useEffect(() => {
+    queryCache.setData(cacheKey, loaded);
+  }, [cacheKey, loaded]);
+
+  const loadNextPage = useCallback(() => {
+    if (loadingRef.current) return Promise.resolve();
+    loadingRef.current = true;
+    const page = loaded.pagesLoaded + 1;
+
+    return listListings({ ...buildListingsQuery(filters), page })
+      .then((data) => {
+        loadingRef.current = false;
+        // Ignore a page requested before a refresh started the list over.
+        setLoaded((prev) => (prev.pagesLoaded === page - 1 ? appendPage(prev, data, filters.pageSize) : prev));
+      })
+      .catch((err) => {
+        loadingRef.current = false;
+        setError(err instanceof Error ? err.message : "Unable to load more listings.");
+      });
+  }, [filters, loaded.pagesLoaded]);
+
+  useEffect(() => {
+    if (!nearEnd || !hasMore || stalled || error) return;
+    loadNextPage();
+  }, [error, hasMore, loadNextPage, nearEnd, stalled]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    await loadNextPage();
+    setLoadingMore(false);
+  };
+
+  // Remember where we were, and go back there when returning to the same search.
+  useEffect(() => {
+    if (restored) {
+      try {
+        const saved = JSON.parse(sessionStorage.getItem(SCROLL_STORAGE_KEY) ?? "null") as {
+          query: string;
+          scrollY: number;
+        } | null;
+        if (saved?.query === query) window.scrollTo(0, saved.scrollY);
+      } catch {
+        // Ignore values written by something else.
+      }
+    }
+
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        sessionStorage.setItem(SCROLL_STORAGE_KEY, JSON.stringify({ query, scrollY: window.scrollY }));
+      });
+    };
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", handleScroll);
+    };
+  }, [query, restored]);
+
+  const rows = Array.from({ length: Math.max(0, endRow - startRow) }, (_, index) => startRow + index);
+
+  return (
+    <div className="space-y-4">
+      <div
+        ref={containerRef}
+        className="relative"
+        style={{ height: Math.max(0, offsets[rowCount] - ROW_GAP) }}
+      >
+        {rows.map((row) => (
+          <div
+            key={`${columns}:${row}`}
+            ref={measureRow}
+            data-row-key={`${columns}:${row}`}
+            className="absolute inset-x-0 grid gap-4 md:grid-cols-2 lg:grid-cols-3"
+            style={{ top: offsets[row] }}
+          >
+            {items.slice(row * columns, (row + 1) * columns).map((listing) => (
+              <ListingCard
+                key={listing.id}
+                listing={listing}
+                canManage={can("listings.manage", listing)}
+                cityMedian={cityMedianFor(listing, medians)}
+                highlight={terms}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-3 rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm text-slate-700 shadow-sm">
+        <span>
+          {hasPricePerSqmBounds(filters)
+            ? `${items.length} of ${loaded.items.length} loaded listings within the price / sqm limits (${loaded.total} in total)`
+            : `Showing ${items.length} of ${loaded.total}`}
+        </span>
+        {error ? (
+          <>
+            <span className="text-red-700">{error}</span>
+            <button
+              type="button"
+              onClick={() => setError(null)}
+              className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50"
+            >
+              <RefreshCw className="h-3.5 w-3.5" /> Retry
+            </button>
+          </>
+        ) : hasMore && stalled ? (
+          <>
+            <span className="text-slate-500">Nothing on the last page matched these filters.</span>
+            <button
+              type="button"
+              onClick={handleLoadMore}
+              disabled={loadingMore}
+              className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {loadingMore ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null} Load more
+            </button>
+          </>
+        ) : hasMore ? (
+          <span className="inline-flex items-center gap-2 text-slate-500">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading more as you scroll…
+          </span>
+        ) : (
+          <span className="text-slate-500">You have reached the end of the results.</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import Image from "next/image";
+import Link from "next/link";
+import { MapPin, Pencil } from "lucide-react";
+
+import { CompareToggle } from "@/components/compare-toggle";
+import { DeleteListingButton } from "@/components/delete-listing-button";
+import { Highlight } from "@/components/highlight";
+import { SaveListingButton } from "@/components/save-listing-button";
+import type { ListingRead } from "@/lib/api-client";
+import { pricePerSqm } from "@/lib/listing-metrics";
+import { cn } from "@/lib/utils";
+
+function formatPrice(value: number, currency: string) {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(value);
+  } catch {
+    return `${currency} ${value.toLocaleString()}`;
+  }
+}
+
+function formatDate(value: string) {
+  return new Intl.DateTimeFormat("en", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  }).format(new Date(value));
+}
+
+// Within 2% of the median counts as "at" it.
+const MEDIAN_TOLERANCE = 0.02;
+
+function MedianBadge({ listing, value, median }: { listing: ListingRead; value: number; median: number }) {
+  const difference = (value - median) / median;
+  const percent = Math.round(Math.abs(difference) * 100);
+  const label =
+    Math.abs(difference) < MEDIAN_TOLERANCE
+      ? `At ${listing.city} ${listing.listing_type} median`
+      : `${percent}% ${difference < 0 ? "below" : "above"} ${listing.city} ${listing.listing_type} median`;
+
+  return (
+    <span
+      title={`Median in these results: ${formatPrice(median, listing.currency)}/sqm`}
+      className={cn(
+        "rounded-full px-3 py-1 normal-case tracking-normal",
+        Math.abs(difference) < MEDIAN_TOLERANCE
+          ? "bg-slate-100 text-slate-700"
+          : difference < 0
+            ? "bg-emerald-50 text-emerald-700"
+            : "bg-amber-50 text-amber-800"
+      )}
+    >
+      {label}
+    </span>
+  );
+}
+
+/**
+ * A listing in the results grid. `canManage` is decided by the caller for the
+ * signed-in user; `cityMedian` is the median price per sqm of the listing's
+ * city in the current results, when there is one. `highlight` holds the
+ * search terms to mark in the title and description.
+ */
+export function ListingCard({
+  listing,
+  canManage,
+  cityMedian,
+  highlight = [],
+}: {
+  listing: ListingRead;
+  canManage: boolean;
+  cityMedian?: number;
+  highlight?: string[];
+}) {
+  const coverImage = listing.images?.[0]?.url;
+  const perSqm = pricePerSqm(listing);
+
+  return (
+    <article
+      className="relative flex h-full flex-col overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm transition hover:-translate-y-0.5 hover:shadow-lg"
+    >
+      <SaveListingButton listingId={listing.id} className="absolute right-3 top-3 z-10" />
+
+      {coverImage ? (
+        <div className="relative h-44 w-full">
+          <Image
+            src={coverImage}
+            alt={listing.title}
+            fill
+            sizes="(min-width: 1024px) 400px, 100vw"
+            className="object-cover"
+            unoptimized
+          />
+        </div>
+      ) : (
+        <div className="flex h-44 w-full items-center justify-center bg-gradient-to-br from-slate-100 to-slate-200 text-sm font-semibold uppercase tracking-wide text-slate-500">
+          No image
+        </div>
+      )}
+
+      <div className="flex flex-1 flex-col gap-3 p-4">
+        <div className="flex flex-wrap items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+          <span className="rounded-full bg-slate-100 px-3 py-1 text-slate-900">
+            {listing.property_type}
+          </span>
+          <span className="rounded-full bg-emerald-100 px-3 py-1 text-emerald-800">
+            {listing.listing_type}
+          </span>
+          {perSqm !== null && cityMedian ? <MedianBadge listing={listing} value={perSqm} median={cityMedian} /> : null}
+        </div>
+
+        <div className="space-y-1">
+          <h3 className="line-clamp-2 text-lg font-semibold text-slate-900" title={listing.title}>
+            <Highlight text={listing.title} terms={highlight} />
+          </h3>
+          <p className="line-clamp-2 text-sm text-slate-600">
+            {listing.description ? <Highlight text={listing.description} terms={highlight} /> : "No description provided."}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 rounded-xl bg-slate-50 p-3 text-sm font-semibold text-slate-800">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Price</p>
+            <p>{formatPrice(listing.price, listing.currency)}</p>
+            {perSqm !== null ? (
+              <p className="text-xs font-medium text-slate-500">{formatPrice(perSqm, listing.currency)}/sqm</p>
+            ) : null}
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Area</p>
+            <p>{listing.area_sqm} sqm</p>
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Rooms</p>
+            <p>{listing.rooms}</p>
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Created</p>
+            <p>{formatDate(listing.created_at)}</p>
+          </div>
+        </div>
+
+        <div className="mt-auto space-y-3">
+          <div className="flex items-center justify-between text-sm text-slate-700">
+            <span className="inline-flex items-center gap-2">
+              <MapPin className="h-4 w-4" />
+              {listing.city}
+            </span>
+            <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700">#{listing.id.slice(0, 6)}</span>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 border-t border-slate-100 px-1 pt-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Link
+                href={`/listings/${listing.id}`}
+                className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-800 transition hover:border-slate-300 hover:bg-slate-50"
+              >
+                View details
+              </Link>
+              <CompareToggle listing={{ id: listing.id, title: listing.title, coverImage: coverImage ?? null }} />
+            </div>
+
+            {canManage ? (
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                <Link
+                  href={`/listings/${listing.id}/edit`}
+                  className="inline-flex items-center gap-2 rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold text-white shadow-sm transition hover:bg-slate-800"
+                >
+                  <Pencil className="h-4 w-4" /> Edit
+                </Link>
+                <DeleteListingButton listingId={listing.id} />
+              </div>
+            ) : null}
+          </div>
+        </div>
+      </div>
+    </article>
+  );
+}
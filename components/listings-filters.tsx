@@ -0,0 +1,368 @@
+"use client";
+
+import { usePathname, useRouter } from "next/navigation";
+import { useEffect, useRef, useState, useTransition } from "react";
+import { Filter, LayoutGrid, Loader2, RefreshCw, Rows3, Search } from "lucide-react";
+
+import { CityCombobox } from "@/components/city-combobox";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import {
+  listingSortFieldOptions as sortFieldOptions,
+  listingTypeOptions,
+  propertyTypeOptions,
+  sortOrderOptions,
+} from "@/lib/api-client";
+import {
+  filtersToSearchParams,
+  initialFilters,
+  pageLocalFilterKeys,
+  pageSizeOptions,
+  pageSortOptions,
+  textFilterKeys,
+  type FiltersState,
+} from "@/lib/listing-filters";
+import { cn } from "@/lib/utils";
+
+const pageSortLabels: Record<FiltersState["pageSort"], string> = {
+  "": "Keep the order above",
+  price_per_sqm_asc: "Lowest first",
+  price_per_sqm_desc: "Highest first",
+};
+
+const viewLabels: Record<FiltersState["view"], { label: string; icon: typeof LayoutGrid }> = {
+  pages: { label: "Pages", icon: LayoutGrid },
+  scroll: { label: "Infinite scroll", icon: Rows3 },
+};
+
+/**
+ * The interactive part of the listings page. `filters` are the ones the server
+ * rendered from the URL; edits are written back to the URL, which re-renders
+ * the results on the server.
+ */
+export function ListingsFilters({ filters: urlFilters }: { filters: FiltersState }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [isPending, startTransition] = useTransition();
+
+  const urlQuery = filtersToSearchParams(urlFilters).toString();
+  const [filters, setFilters] = useState<FiltersState>(urlFilters);
+  const [syncedQuery, setSyncedQuery] = useState(urlQuery);
+
+  // Text inputs replace the current history entry; selects and reset push a new one.
+  const historyModeRef = useRef<"push" | "replace">("replace");
+
+  const debouncedFilters = useDebouncedValue(filters, 250);
+  const debouncedQuery = filtersToSearchParams(debouncedFilters).toString();
+
+  // Back/Forward, a pager link or a link to another search changed the URL
+  // underneath us: adopt it. Our own writes match the debounced filters.
+  if (urlQuery !== syncedQuery) {
+    setSyncedQuery(urlQuery);
+    if (urlQuery !== debouncedQuery) setFilters(urlFilters);
+  }
+
+  // Only settled filter changes are written; URL changes are adopted above, so
+  // the current URL is read through a ref rather than re-running the write.
+  const locationRef = useRef({ router, pathname, urlQuery });
+  useEffect(() => {
+    locationRef.current = { router, pathname, urlQuery };
+  });
+
+  useEffect(() => {
+    const latest = locationRef.current;
+    if (debouncedQuery === latest.urlQuery) return;
+    const href = debouncedQuery ? `${latest.pathname}?${debouncedQuery}` : latest.pathname;
+    startTransition(() => latest.router[historyModeRef.current](href, { scroll: false }));
+  }, [debouncedQuery]);
+
+  const handleFilterChange = <K extends keyof FiltersState>(key: K, value: FiltersState[K]) => {
+    historyModeRef.current = (textFilterKeys as readonly string[]).includes(key) ? "replace" : "push";
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value,
+      page:
+        key === "page"
+          ? (value as number)
+          : (pageLocalFilterKeys as readonly string[]).includes(key)
+            ? prev.page
+            : 1,
+    }));
+  };
+
+  const pageScope = filters.view === "scroll" ? "the listings loaded so far" : "this page";
+
+  const resetFilters = () => {
+    historyModeRef.current = "push";
+    // The browse mode is a preference, not a filter.
+    setFilters((prev) => ({ ...initialFilters, view: prev.view }));
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-200 bg-white/80 p-6 shadow-sm backdrop-blur">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm font-semibold text-slate-800">
+          <Filter className="h-4 w-4" />
+          Filters & sorting
+          {isPending ? (
+            <span className="inline-flex items-center gap-1 text-xs font-medium text-slate-500">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" /> Updating…
+            </span>
+          ) : null}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div role="group" aria-label="Browse mode" className="flex rounded-full border border-slate-200 p-0.5">
+            {Object.entries(viewLabels).map(([view, { label, icon: Icon }]) => (
+              <button
+                key={view}
+                type="button"
+                aria-pressed={filters.view === view}
+                onClick={() => handleFilterChange("view", view as FiltersState["view"])}
+                className={cn(
+                  "inline-flex items-center gap-1.5 rounded-full px-3 py-1.5 text-xs font-semibold transition",
+                  filters.view === view ? "bg-slate-900 text-white" : "text-slate-700 hover:bg-slate-50"
+                )}
+              >
+                <Icon className="h-3.5 w-3.5" /> {label}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={resetFilters}
+            className="inline-flex items-center gap-2 rounded-full border border-slate-200 px-3 py-2 text-xs font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50"
+          >
+            <RefreshCw className="h-4 w-4" /> Reset
+          </button>
+        </div>
+      </div>
+
+      <label className="mt-4 block space-y-1 text-sm font-semibold text-slate-800">
+        Keywords
+        <div className="relative">
+          <Search className="pointer-events-none absolute left-3 top-2.5 h-4 w-4 text-slate-400" />
+          <input
+            type="search"
+            value={filters.keywords}
+            onChange={(event) => handleFilterChange("keywords", event.target.value)}
+            maxLength={200}
+            placeholder='Search titles and descriptions, e.g. balcony or "sea view"'
+            className="w-full rounded-xl border border-slate-200 bg-white py-2 pl-9 pr-3 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          />
+        </div>
+      </label>
+
+      <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+        <label className="space-y-1 text-sm font-semibold text-slate-800">
+          Property type
+          <select
+            value={filters.propertyType}
+            onChange={(event) => handleFilterChange("propertyType", event.target.value)}
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          >
+            <option value="">Any</option>
+            {propertyTypeOptions.map((option) => (
+              <option key={option} value={option}>
+                {option.charAt(0).toUpperCase() + option.slice(1)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1 text-sm font-semibold text-slate-800">
+          Listing type
+          <select
+            value={filters.listingType}
+            onChange={(event) => handleFilterChange("listingType", event.target.value)}
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          >
+            <option value="">Any</option>
+            {listingTypeOptions.map((option) => (
+              <option key={option} value={option}>
+                {option.charAt(0).toUpperCase() + option.slice(1)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1 text-sm font-semibold text-slate-800">
+          City
+          <CityCombobox
+            value={filters.city}
+            onChange={(city) => handleFilterChange("city", city)}
+            placeholder="e.g. San Francisco"
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          />
+        </label>
+
+        <label className="space-y-1 text-sm font-semibold text-slate-800">
+          Min price
+          <input
+            type="number"
+            min={0}
+            value={filters.minPrice}
+            onChange={(event) => handleFilterChange("minPrice", event.target.value)}
+            placeholder="0"
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          />
+        </label>
+
+        <label className="space-y-1 text-sm font-semibold text-slate-800">
+          Max price
+          <input
+            type="number"
+            min={0}
+            value={filters.maxPrice}
+            onChange={(event) => handleFilterChange("maxPrice", event.target.value)}
+            placeholder="500000"
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          />
+        </label>
+
+        <label className="space-y-1 text-sm font-semibold text-slate-800">
+          Min area (sqm)
+          <input
+            type="number"
+            min={1}
+            value={filters.minArea}
+            onChange={(event) => handleFilterChange("minArea", event.target.value)}
+            placeholder="50"
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          />
+        </label>
+
+        <label className="space-y-1 text-sm font-semibold text-slate-800">
+          Max area (sqm)
+          <input
+            type="number"
+            min={1}
+            value={filters.maxArea}
+            onChange={(event) => handleFilterChange("maxArea", event.target.value)}
+            placeholder="250"
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          />
+        </label>
+
+        <label className="space-y-1 text-sm font-semibold text-slate-800">
+          Min rooms
+          <input
+            type="number"
+            min={0}
+            value={filters.minRooms}
+            onChange={(event) => handleFilterChange("minRooms", event.target.value)}
+            placeholder="1"
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          />
+        </label>
+
+        <label className="space-y-1 text-sm font-semibold text-slate-800">
+          Max rooms
+          <input
+            type="number"
+            min={0}
+            value={filters.maxRooms}
+            onChange={(event) => handleFilterChange("maxRooms", event.target.value)}
+            placeholder="5"
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          />
+        </label>
+
+        <label className="space-y-1 text-sm font-semibold text-slate-800">
+          Sort by
+          <select
+            value={filters.sortBy}
+            onChange={(event) => handleFilterChange("sortBy", event.target.value as FiltersState["sortBy"])}
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          >
+            {sortFieldOptions.map((option) => (
+              <option key={option} value={option}>
+                {option.replace("_", " ").replace("_", " ")}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1 text-sm font-semibold text-slate-800">
+          Sort order
+          <select
+            value={filters.sortOrder}
+            onChange={(event) => handleFilterChange("sortOrder", event.target.value as FiltersState["sortOrder"])}
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          >
+            {sortOrderOptions.map((option) => (
+              <option key={option} value={option}>
+                {option.toUpperCase()}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="space-y-1 text-sm font-semibold text-slate-800">
+          Results per page
+          <select
+            value={filters.pageSize}
+            onChange={(event) =>
+              handleFilterChange("pageSize", Number(event.target.value) as FiltersState["pageSize"])
+            }
+            className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+          >
+            {pageSizeOptions.map((option) => (
+              <option key={option} value={option}>
+                {option} {filters.view === "scroll" ? "per batch" : "per page"}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <fieldset className="mt-4 rounded-2xl border border-dashed border-slate-200 px-4 pb-4">
+        <legend className="px-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Price per sqm · {filters.view === "scroll" ? "loaded listings" : "this page"} only
+        </legend>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <label className="space-y-1 text-sm font-semibold text-slate-800">
+            Min price / sqm
+            <input
+              type="number"
+              min={0}
+              value={filters.minPricePerSqm}
+              onChange={(event) => handleFilterChange("minPricePerSqm", event.target.value)}
+              placeholder="2000"
+              className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+            />
+          </label>
+
+          <label className="space-y-1 text-sm font-semibold text-slate-800">
+            Max price / sqm
+            <input
+              type="number"
+              min={0}
+              value={filters.maxPricePerSqm}
+              onChange={(event) => handleFilterChange("maxPricePerSqm", event.target.value)}
+              placeholder="8000"
+              className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+            />
+          </label>
+
+          <label className="space-y-1 text-sm font-semibold text-slate-800">
+            Order by price / sqm
+            <select
+              value={filters.pageSort}
+              onChange={(event) => handleFilterChange("pageSort", event.target.value as FiltersState["pageSort"])}
+              className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 shadow-sm outline-none transition focus:border-slate-400 focus:ring-2 focus:ring-slate-200"
+            >
+              {pageSortOptions.map((option) => (
+                <option key={option} value={option}>
+                  {pageSortLabels[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className="mt-3 text-xs font-medium text-slate-500">
+          The API cannot filter or sort by price per sqm, so these only narrow and reorder {pageScope}. Result counts
+          and pages still include every listing that matches the filters above.
+        </p>
+      </fieldset>
+    </section>
+  );
+}
@@ -0,0 +1,166 @@
+import Link from "next/link";
+import { CalendarClock, Home } from "lucide-react";
+
+import { InfiniteListings } from "@/components/infinite-listings";
+import { ListingCard } from "@/components/listing-card";
+import { SeenCitiesRecorder } from "@/components/seen-cities-recorder";
+import { listListings, type ListingListRead } from "@/lib/api-client";
+import { buildListingsQuery, filtersToSearchParams, type FiltersState } from "@/lib/listing-filters";
+import { applyPricePerSqmFilters, cityMedianFor, cityMedians, hasPricePerSqmBounds } from "@/lib/listing-metrics";
+import { filterByKeywords, parseKeywords } from "@/lib/listing-search";
+import { can } from "@/lib/permissions";
+import { getSessionUser } from "@/lib/session";
+
+type ListingsLoadResult = {
+  data: ListingListRead | null;
+  error: string | null;
+};
+
+async function loadListings(filters: FiltersState): Promise<ListingsLoadResult> {
+  try {
+    const data = await listListings(buildListingsQuery(filters), { cache: "no-store", policy: { timeoutMs: 8_000 } });
+    return { data, error: null };
+  } catch (error) {
+    return { data: null, error: error instanceof Error ? error.message : "Unable to load listings." };
+  }
+}
+
+function pageHref(filters: FiltersState, page: number) {
+  const query = filtersToSearchParams({ ...filters, page }).toString();
+  return query ? `/listings?${query}` : "/listings";
+}
+
+const pagerClassName =
+  "rounded-full border border-slate-200 px-4 py-2 font-semibold text-slate-700 transition hover:border-slate-300 hover:bg-slate-50";
+const disabledPagerClassName =
+  "cursor-not-allowed rounded-full border border-slate-200 px-4 py-2 font-semibold text-slate-700 opacity-50";
+
+/** Fetches and renders one page of results on the server; streamed in behind a Suspense boundary. */
+export async function ListingsResults({ filters }: { filters: FiltersState }) {
+  const [{ data, error }, viewer] = await Promise.all([
+    loadListings(filters),
+    // Only decides whether edit and delete are offered; the backend re-checks both.
+    getSessionUser().catch(() => null),
+  ]);
+  const totalPages = data?.total ? Math.max(1, Math.ceil(data.total / filters.pageSize)) : 1;
+  const terms = parseKeywords(filters.keywords);
+  const items = data ? applyPricePerSqmFilters(filterByKeywords(data.items, terms), filters) : [];
+  const medians = cityMedians(items);
+
+  return (
+    <>
+      <section className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="space-y-1">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Results</p>
+            <div className="flex items-center gap-2 text-sm text-slate-600">
+              <Home className="h-4 w-4" />
+              {data?.total ? `${data.total} listing${data.total === 1 ? "" : "s"} found` : "Fresh market data"}
+              {data && data.items.length > 0 && filters.view === "pages" && hasPricePerSqmBounds(filters) ? (
+                <span className="text-slate-500">
+                  · {items.length} of {data.items.length} on this page within the price / sqm limits
+                </span>
+              ) : null}
+            </div>
+          </div>
+
+          {filters.view === "pages" ? (
+            <div className="flex items-center gap-2 text-sm text-slate-700">
+              <CalendarClock className="h-4 w-4" />
+              Page {filters.page} of {totalPages}
+            </div>
+          ) : null}
+        </div>
+
+        {error && (
+          <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {data?.items.length ? <SeenCitiesRecorder cities={data.items.map((listing) => listing.city)} /> : null}
+
+        {data && data.items.length === 0 ? (
+          <div className="rounded-2xl border border-slate-200 bg-white px-4 py-6 text-center text-slate-700 shadow-sm">
+            No listings match the selected filters yet.
+          </div>
+        ) : data && filters.view === "scroll" ? (
+          <InfiniteListings filters={filters} initialPage={data} />
+        ) : data && items.length === 0 ? (
+          <div className="rounded-2xl border border-slate-200 bg-white px-4 py-6 text-center text-slate-700 shadow-sm">
+            No listings on this page match all of the selected filters.
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {items.map((listing) => (
+              <ListingCard
+                key={listing.id}
+                listing={listing}
+                canManage={can(viewer, "listings.manage", listing)}
+                cityMedian={cityMedianFor(listing, medians)}
+                highlight={terms}
+              />
+            ))}
+          </div>
+        )}
+      </section>
+
+      {filters.view === "pages" ? (
+        <section className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm text-slate-700 shadow-sm">
+          <div className="flex items-center gap-2">
+            Page {filters.page} of {totalPages}
+            {data?.total !== undefined && (
+              <span className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700">
+                {data.total} total results
+              </span>
+            )}
+          </div>
+          <nav aria-label="Pagination" className="flex items-center gap-2">
+            {filters.page > 1 ? (
+              <Link href={pageHref(filters, Math.min(filters.page - 1, totalPages))} className={pagerClassName}>
+                Previous
+              </Link>
+            ) : (
+              <span aria-disabled="true" className={disabledPagerClassName}>
+                Previous
+              </span>
+            )}
+            {filters.page < totalPages ? (
+              <Link href={pageHref(filters, filters.page + 1)} className={pagerClassName}>
+                Next
+              </Link>
+            ) : (
+              <span aria-disabled="true" className={disabledPagerClassName}>
+                Next
+              </span>
+            )}
+          </nav>
+        </section>
+      ) : null}
+    </>
+  );
+}
+
+export function ListingsResultsSkeleton({ pageSize }: { pageSize: number }) {
+  return (
+    <section className="space-y-4" aria-busy="true">
+      <div className="space-y-1">
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Results</p>
+        <div className="flex items-center gap-2 text-sm text-slate-600">
+          <Home className="h-4 w-4" />
+          Loading listings…
+        </div>
+      </div>
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {Array.from({ length: pageSize }).map((_, index) => (
+          <div
+            key={index}
+            className="h-64 rounded-2xl border border-slate-200 bg-white shadow-sm ring-1 ring-slate-100/50"
+          >
+            <div className="h-full animate-pulse rounded-2xl bg-gradient-to-br from-slate-100 via-white to-slate-100" />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { Check, X } from "lucide-react";
+
+import { FieldError } from "@/components/field-error";
+import { checkPassword, passwordStrengthLabels, type PasswordStrength } from "@/lib/password-policy";
+import { cn } from "@/lib/utils";
+
+type PasswordFieldsProps = {
+  /** Prefix for the input ids, so the fields can sit next to other password inputs. */
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  confirmation: string;
+  onConfirmationChange: (value: string) => void;
+  /** The account email; the policy rejects passwords that contain it. */
+  email?: string | null;
+  error?: string;
+  confirmationError?: string;
+};
+
+const inputClassName =
+  "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200";
+
+const strengthColors: Record<PasswordStrength, string> = {
+  0: "bg-slate-200",
+  1: "bg-red-500",
+  2: "bg-amber-500",
+  3: "bg-emerald-500",
+  4: "bg-emerald-600",
+};
+
+/** New-password input with a live strength meter and policy checklist, plus its confirmation field. */
+export function PasswordFields({
+  id,
+  label,
+  value,
+  onChange,
+  confirmation,
+  onConfirmationChange,
+  email,
+  error,
+  confirmationError,
+}: PasswordFieldsProps) {
+  const { rules, strength } = checkPassword(value, email);
+  const mismatch = confirmation.length > 0 && confirmation !== value;
+
+  return (
+    <>
+      <div className="space-y-2">
+        <label htmlFor={id} className="text-sm font-semibold text-slate-900">
+          {label}
+        </label>
+        <input
+          id={id}
+          name={id}
+          type="password"
+          required
+          autoComplete="new-password"
+          aria-describedby={`${id}-requirements`}
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          className={inputClassName}
+        />
+
+        <div className="space-y-1" aria-live="polite">
+          <div className="grid grid-cols-4 gap-1" aria-hidden="true">
+            {[1, 2, 3, 4].map((level) => (
+              <span
+                key={level}
+                className={cn("h-1.5 rounded-full", strength >= level ? strengthColors[strength] : "bg-slate-200")}
+              />
+            ))}
+          </div>
+          <p className="text-xs font-semibold text-slate-600">
+            Strength: {value ? passwordStrengthLabels[strength] : "—"}
+          </p>
+        </div>
+
+        <ul id={`${id}-requirements`} className="space-y-1 text-xs">
+          {rules.map((rule) => (
+            <li
+              key={rule.id}
+              className={cn("flex items-center gap-1.5", rule.passed ? "text-emerald-700" : "text-slate-500")}
+            >
+              {rule.passed ? <Check className="h-3.5 w-3.5" /> : <X className="h-3.5 w-3.5" />}
+              {rule.label}
+            </li>
+          ))}
+        </ul>
+        <FieldError message={error} />
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor={`${id}-confirmation`} className="text-sm font-semibold text-slate-900">
+          Confirm {label.toLowerCase()}
+        </label>
+        <input
+          id={`${id}-confirmation`}
+          name={`${id}-confirmation`}
+          type="password"
+          required
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={(event) => onConfirmationChange(event.target.value)}
+          className={inputClassName}
+        />
+        {mismatch && !confirmationError ? (
+          <p className="text-xs font-medium text-amber-700">Passwords do not match yet.</p>
+        ) : null}
+        <FieldError message={confirmationError} />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import { X } from "lucide-react";
+import { useRouter } from "next/navigation";
+
+import { compareHref, compareStore } from "@/lib/compare-store";
+
+/** Drops a column from the comparison, both from the tray and from the current URL. */
+export function RemoveFromCompareButton({ listingId, remainingIds }: { listingId: string; remainingIds: string[] }) {
+  const router = useRouter();
+
+  return (
+    <button
+      type="button"
+      onClick={() => {
+        compareStore.remove(listingId);
+        router.replace(compareHref(remainingIds), { scroll: false });
+      }}
+      aria-label="Remove from comparison"
+      className="inline-flex h-8 w-8 items-center justify-center rounded-full border border-slate-200 bg-white text-slate-600 shadow-sm transition hover:border-slate-300 hover:bg-slate-50"
+    >
+      <X className="h-4 w-4" />
+    </button>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { Heart } from "lucide-react";
+import { useState } from "react";
+
+import { useSavedListings } from "@/components/saved-listings-provider";
+import { cn } from "@/lib/utils";
+
+/** Heart toggle that saves a listing to the default collection, or removes it from every collection. */
+export function SaveListingButton({ listingId, className }: { listingId: string; className?: string }) {
+  const { isSaved, toggleSaved, loading } = useSavedListings();
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const saved = isSaved(listingId);
+
+  const handleClick = async () => {
+    setError(null);
+    setPending(true);
+    try {
+      await toggleSaved(listingId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update saved listings.");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={loading || pending}
+      aria-pressed={saved}
+      aria-label={saved ? "Remove from saved listings" : "Save listing"}
+      title={error ?? (saved ? "Saved — click to remove" : "Save to favorites")}
+      className={cn(
+        "inline-flex h-9 w-9 items-center justify-center rounded-full border bg-white/90 shadow-sm backdrop-blur transition hover:bg-white disabled:cursor-not-allowed disabled:opacity-60",
+        error ? "border-red-300" : "border-slate-200",
+        className,
+      )}
+    >
+      <Heart className={cn("h-4 w-4", saved ? "fill-rose-500 text-rose-500" : "text-slate-600")} />
+    </button>
+  );
+}
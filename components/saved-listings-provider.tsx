@@ -0,0 +1,213 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+
+import { useAuth } from "@/components/auth-provider";
+import {
+  accountCollectionsStore,
+  DEFAULT_COLLECTION_NAME,
+  localCollectionsStore,
+  openCollections,
+  viewedCollectionsStore,
+  type Collection,
+  type CollectionsStore,
+} from "@/lib/collections-store";
+
+type SavedListingsContextState = {
+  collections: Collection[];
+  loading: boolean;
+  error: string | null;
+  isSaved: (listingId: string) => boolean;
+  /** Saves into the default collection, or removes the listing from every collection. */
+  toggleSaved: (listingId: string) => Promise<void>;
+  setInCollection: (collectionId: string, listingId: string, saved: boolean) => Promise<void>;
+  createCollection: (name: string, listingIds?: string[]) => Promise<Collection>;
+  renameCollection: (collectionId: string, name: string) => Promise<void>;
+  deleteCollection: (collectionId: string) => Promise<void>;
+};
+
+const SavedListingsContext = createContext<SavedListingsContextState | undefined>(undefined);
+
+type LoadedCollections = {
+  /** Whose collections these are: a user id, or "local" for anonymous visitors. */
+  owner: string;
+  /** Where they were loaded from; the account store falls back to this browser when the backend lacks it. */
+  store: CollectionsStore;
+  collections: Collection[];
+  error: string | null;
+};
+
+export function SavedListingsProvider({ children }: { children: React.ReactNode }) {
+  const { user, impersonator, loading: authLoading } = useAuth();
+  // While an administrator views the app as someone else, `user` is that person.
+  const userId = user?.id ?? null;
+  const owner = userId ?? "local";
+  const viewing = impersonator !== null;
+  const preferredStore = useMemo(() => {
+    if (!userId) return localCollectionsStore(null);
+    return viewing ? viewedCollectionsStore(userId) : accountCollectionsStore(userId);
+  }, [userId, viewing]);
+  const [loaded, setLoaded] = useState<LoadedCollections | null>(null);
+  const [revision, setRevision] = useState(0);
+  const active = loaded?.owner === owner ? loaded : null;
+  const store = active?.store ?? preferredStore;
+
+  useEffect(() => {
+    if (authLoading) return;
+    let cancelled = false;
+
+    openCollections(preferredStore)
+      .then(({ store: opened, collections }) => {
+        if (!cancelled) setLoaded({ owner, store: opened, collections, error: null });
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setLoaded({
+            owner,
+            store: preferredStore,
+            collections: [],
+            error: error instanceof Error ? error.message : "Unable to load saved listings.",
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authLoading, owner, preferredStore, revision]);
+
+  // Local collections are shared by every tab of this browser.
+  useEffect(() => {
+    const { storageKey } = store;
+    if (!storageKey) return;
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === storageKey) setRevision((value) => value + 1);
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [store]);
+
+  const collections = useMemo(() => active?.collections ?? [], [active]);
+
+  const replace = useCallback(
+    (update: (current: Collection[]) => Collection[]) => {
+      setLoaded((prev) => ({
+        owner,
+        store,
+        collections: update(prev?.owner === owner ? prev.collections : []),
+        error: null,
+      }));
+    },
+    [owner, store]
+  );
+
+  const isSaved = useCallback(
+    (listingId: string) => collections.some((collection) => collection.listing_ids.includes(listingId)),
+    [collections]
+  );
+
+  const createCollection = useCallback(
+    async (name: string, listingIds: string[] = []) => {
+      const created = await store.create(name, listingIds);
+      replace((current) => [...current, created]);
+      return created;
+    },
+    [replace, store]
+  );
+
+  const updateListings = useCallback(
+    async (collection: Collection, listingIds: string[]) => {
+      const updated = await store.update(collection.id, { listing_ids: listingIds });
+      replace((current) => current.map((item) => (item.id === updated.id ? updated : item)));
+    },
+    [replace, store]
+  );
+
+  const setInCollection = useCallback(
+    async (collectionId: string, listingId: string, saved: boolean) => {
+      const collection = collections.find((item) => item.id === collectionId);
+      if (!collection || collection.listing_ids.includes(listingId) === saved) return;
+      await updateListings(
+        collection,
+        saved ? [...collection.listing_ids, listingId] : collection.listing_ids.filter((id) => id !== listingId)
+      );
+    },
+    [collections, updateListings]
+  );
+
+  const toggleSaved = useCallback(
+    async (listingId: string) => {
+      const containing = collections.filter((collection) => collection.listing_ids.includes(listingId));
+      if (containing.length) {
+        await Promise.all(
+          containing.map((collection) =>
+            updateListings(
+              collection,
+              collection.listing_ids.filter((id) => id !== listingId)
+            )
+          )
+        );
+        return;
+      }
+
+      const favorites = collections.find((collection) => collection.name === DEFAULT_COLLECTION_NAME);
+      if (favorites) {
+        await updateListings(favorites, [...favorites.listing_ids, listingId]);
+      } else {
+        await createCollection(DEFAULT_COLLECTION_NAME, [listingId]);
+      }
+    },
+    [collections, createCollection, updateListings]
+  );
+
+  const renameCollection = useCallback(
+    async (collectionId: string, name: string) => {
+      const updated = await store.update(collectionId, { name });
+      replace((current) => current.map((item) => (item.id === updated.id ? updated : item)));
+    },
+    [replace, store]
+  );
+
+  const deleteCollection = useCallback(
+    async (collectionId: string) => {
+      await store.remove(collectionId);
+      replace((current) => current.filter((item) => item.id !== collectionId));
+    },
+    [replace, store]
+  );
+
+  const value = useMemo(
+    () => ({
+      collections,
+      loading: authLoading || !active,
+      error: active?.error ?? null,
+      isSaved,
+      toggleSaved,
+      setInCollection,
+      createCollection,
+      renameCollection,
+      deleteCollection,
+    }),
+    [
+      active,
+      authLoading,
+      collections,
+      createCollection,
+      deleteCollection,
+      isSaved,
+      renameCollection,
+      setInCollection,
+      toggleSaved,
+    ]
+  );
+
+  return <SavedListingsContext.Provider value={value}>{children}</SavedListingsContext.Provider>;
+}
+
+export function useSavedListings() {
+  const context = useContext(SavedListingsContext);
+  if (!context) {
+    throw new Error("useSavedListings must be used within a SavedListingsProvider");
+  }
+  return context;
+}
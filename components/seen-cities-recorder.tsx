@@ -0,0 +1,16 @@
+"use client";
+
+import { useEffect } from "react";
+
+import { recordSeenCities } from "@/lib/cities";
+
+/** Feeds the cities of server-rendered results to the city combobox's suggestions. */
+export function SeenCitiesRecorder({ cities }: { cities: string[] }) {
+  const key = cities.join("\n");
+
+  useEffect(() => {
+    recordSeenCities(key.split("\n"));
+  }, [key]);
+
+  return null;
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { Clock, Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+
+import { MAX_TIMER_DELAY, useAuth } from "@/components/auth-provider";
+
+/** How long before expiry the countdown appears. */
+const WARNING_WINDOW_MS = 2 * 60 * 1000;
+
+function formatCountdown(milliseconds: number) {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+export function SessionExpiryWarning() {
+  const { user, impersonator, expiresAt } = useAuth();
+  const [now, setNow] = useState<number | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  // Only tick once the warning window starts; the provider logs out at expiry.
+  useEffect(() => {
+    if (!user || expiresAt === null) return;
+    const delay = expiresAt - WARNING_WINDOW_MS - Date.now();
+    if (delay > MAX_TIMER_DELAY) return;
+
+    let interval: ReturnType<typeof setInterval> | undefined;
+    const start = setTimeout(() => {
+      setNow(Date.now());
+      interval = setInterval(() => setNow(Date.now()), 1000);
+    }, Math.max(0, delay));
+
+    return () => {
+      clearTimeout(start);
+      clearInterval(interval);
+    };
+  }, [expiresAt, user]);
+
+  const remaining = now === null || expiresAt === null ? null : expiresAt - now;
+  if (!user || remaining === null || remaining > WARNING_WINDOW_MS || remaining <= 0) return null;
+
+  return (
+    <>
+      <div className="border-t border-amber-200 bg-amber-50">
+        <div
+          role="status"
+          className="mx-auto flex max-w-6xl flex-wrap items-center justify-between gap-3 px-4 py-2 text-sm text-amber-800"
+        >
+          <p className="inline-flex items-center gap-2 font-semibold">
+            <Clock className="h-4 w-4" />
+            Your session expires in {formatCountdown(remaining)}. Unsaved changes will be lost.
+          </p>
+          <button
+            type="button"
+            onClick={() => setDialogOpen(true)}
+            className="rounded-full bg-amber-600 px-4 py-1.5 text-xs font-semibold text-white shadow-sm transition hover:bg-amber-700"
+          >
+            Stay signed in
+          </button>
+        </div>
+      </div>
+
+      {dialogOpen ? <ReauthDialog email={(impersonator ?? user).email} onClose={() => setDialogOpen(false)} /> : null}
+    </>
+  );
+}
+
+function ReauthDialog({ email, onClose }: { email: string; onClose: () => void }) {
+  const { reauthenticate } = useAuth();
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      await reauthenticate(password);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to renew your session.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-slate-900/40 px-4"
+      onKeyDown={(event) => {
+        if (event.key === "Escape") onClose();
+      }}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="reauth-title"
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-4 rounded-2xl border border-slate-200 bg-white p-6 shadow-lg"
+      >
+        <div className="space-y-1">
+          <h2 id="reauth-title" className="text-lg font-semibold text-slate-900">
+            Stay signed in
+          </h2>
+          <p className="text-sm text-slate-600">
+            Enter the password for <span className="font-semibold text-slate-900">{email}</span> to renew your session.
+            You will stay on this page.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="reauth-password" className="text-sm font-semibold text-slate-900">
+            Password
+          </label>
+          <input
+            id="reauth-password"
+            type="password"
+            required
+            autoFocus
+            autoComplete="current-password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm transition focus:border-slate-300 focus:outline-none focus:ring-2 focus:ring-slate-200"
+          />
+        </div>
+
+        {error ? (
+          <p className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm font-semibold text-red-700">{error}</p>
+        ) : null}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-900 transition hover:border-slate-300 hover:bg-slate-50"
+          >
+            Not now
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="inline-flex items-center gap-2 rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-70"
+          >
+            {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+            Sign in again
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -6,10 +6,14 @@ import { Menu, X } from "lucide-react";
 import { useState } from "react";
 import Image from "next/image";
 import { useAuth } from "@/components/auth-provider";
+import { ImpersonationBanner } from "@/components/impersonation-banner";
+import { SessionExpiryWarning } from "@/components/session-expiry-warning";
+import { useCan } from "@/hooks/use-can";
 
 const navLinks = [
   { name: "Home", href: "/" },
   { name: "Listings", href: "/listings" },
+  { name: "Saved", href: "/saved" },
 ];
 
 const authLinks = [
@@ -21,14 +25,15 @@ export function SiteHeader() {
   const [open, setOpen] = useState(false);
   const pathname = usePathname();
   const { user, logout } = useAuth();
+  const can = useCan();
 
-  const isAdmin = ["admin", "moderator"].includes(user?.role ?? "");
-  const links = isAdmin ? [...navLinks, { name: "Admin", href: "/admin" }] : navLinks;
+  const links = can("users.view") ? [...navLinks, { name: "Admin", href: "/admin" }] : navLinks;
 
   const closeMenu = () => setOpen(false);
 
   return (
     <header className="sticky top-0 z-50 border-b border-slate-200 bg-white/80 backdrop-blur">
+      <ImpersonationBanner />
       <div className="mx-auto flex max-w-6xl items-center justify-between px-4 py-4">
         <Link href="/" className="flex items-center gap-3 text-slate-900">
           <Image
@@ -72,7 +77,11 @@ export function SiteHeader() {
           </Link>
           {user ? (
             <div className="flex items-center gap-3 text-sm font-medium text-slate-700">
-              <div className="flex items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1.5 text-slate-900 shadow-sm">
+              <Link
+                href="/account"
+                title="Account settings"
+                className="flex items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1.5 text-slate-900 shadow-sm transition hover:border-slate-300 hover:bg-slate-50"
+              >
                 <span className="flex h-8 w-8 items-center justify-center rounded-full bg-slate-900 text-xs font-semibold uppercase text-white">
                   {(user.full_name || user.email || "?").charAt(0)}
                 </span>
@@ -82,7 +91,7 @@ export function SiteHeader() {
                     {user.full_name || user.email}
                   </p>
                 </div>
-              </div>
+              </Link>
               <button
                 type="button"
                 onClick={logout}
@@ -117,6 +126,8 @@ export function SiteHeader() {
         </button>
       </div>
 
+      <SessionExpiryWarning />
+
       {open ? (
         <div className="border-t border-slate-200 bg-white md:hidden">
           <div className="mx-auto flex max-w-6xl flex-col gap-3 px-4 py-4 text-sm font-medium text-slate-700">
@@ -148,7 +159,11 @@ export function SiteHeader() {
             <div className="flex flex-col gap-2 pt-1 text-slate-700">
               {user ? (
                 <>
-                  <div className="flex items-center gap-3 rounded-lg bg-slate-50 px-3 py-2 text-slate-900">
+                  <Link
+                    href="/account"
+                    onClick={closeMenu}
+                    className="flex items-center gap-3 rounded-lg bg-slate-50 px-3 py-2 text-slate-900 transition hover:bg-slate-100"
+                  >
                     <span className="flex h-9 w-9 items-center justify-center rounded-full bg-slate-900 text-sm font-semibold uppercase text-white">
                       {(user.full_name || user.email || "?").charAt(0)}
                     </span>
@@ -156,7 +171,7 @@ export function SiteHeader() {
                       <p className="text-xs text-slate-500">Signed in</p>
                       <p className="text-sm font-semibold text-slate-900">{user.full_name || user.email}</p>
                     </div>
-                  </div>
+                  </Link>
                   <button
                     type="button"
                     onClick={() => {
@@ -0,0 +1,20 @@
+import { useCallback } from "react";
+
+import { useAuth } from "@/components/auth-provider";
+import { can, type Action, type Capability, type ListingResource, type ResourceAction } from "@/lib/permissions";
+
+type CanFunction = {
+  (action: Capability): boolean;
+  (action: ResourceAction, listing: ListingResource): boolean;
+};
+
+/** Returns `can` bound to the signed-in user. */
+export function useCan(): CanFunction {
+  const { user } = useAuth();
+
+  return useCallback(
+    (action: Action, listing?: ListingResource) =>
+      action === "listings.manage" ? can(user, action, listing as ListingResource) : can(user, action),
+    [user],
+  ) as CanFunction;
+}
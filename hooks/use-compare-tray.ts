@@ -0,0 +1,32 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+
+import { compareStore, MAX_COMPARED_LISTINGS, type ComparedListing } from "@/lib/compare-store";
+
+/** The listings picked for comparison, shared by every component (and tab) that reads it. */
+export function useCompareTray() {
+  const items = useSyncExternalStore(compareStore.subscribe, compareStore.getSnapshot, compareStore.getServerSnapshot);
+
+  const isCompared = useCallback((id: string) => items.some((item) => item.id === id), [items]);
+
+  const toggle = useCallback(
+    (item: ComparedListing) => {
+      if (isCompared(item.id)) {
+        compareStore.remove(item.id);
+        return true;
+      }
+      return compareStore.add(item);
+    },
+    [isCompared]
+  );
+
+  return {
+    items,
+    full: items.length >= MAX_COMPARED_LISTINGS,
+    isCompared,
+    toggle,
+    remove: compareStore.remove,
+    clear: compareStore.clear,
+  };
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+
+import { DEFAULT_STALE_TIME, hashQueryKey, queryCache, type QueryKey, type QueryState } from "@/lib/query-cache";
+
+type UseQueryOptions = {
+  /** Cached data younger than this is served without revalidating. */
+  staleTime?: number;
+  /** Skip fetching, e.g. until the user is signed in. */
+  enabled?: boolean;
+};
+
+export type UseQueryResult<T> = QueryState<T> & {
+  /** True until the first response for the current key has arrived. */
+  isLoading: boolean;
+  refetch: () => Promise<T | undefined>;
+};
+
+const serverState: QueryState<never> = { data: undefined, error: null, updatedAt: 0, isFetching: false };
+
+// Stale-while-revalidate reads from the shared query cache: cached data renders
+// immediately and a background request refreshes it once it is older than `staleTime`.
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { staleTime = DEFAULT_STALE_TIME, enabled = true }: UseQueryOptions = {},
+): UseQueryResult<T> {
+  // The key's identity changes every render; its hash is what callers mean, and
+  // parsing it back gives a key that only changes when the hash does.
+  const hash = hashQueryKey(key);
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+  const fetcherRef = useRef(fetcher);
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback((listener: () => void) => queryCache.subscribe(stableKey, listener), [stableKey]);
+  const getSnapshot = useCallback(() => queryCache.getState<T>(stableKey), [stableKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot, () => serverState);
+
+  useEffect(() => {
+    if (!enabled || !queryCache.isStale(stableKey, staleTime)) return;
+    queryCache.revalidate(stableKey, () => fetcherRef.current()).catch(() => undefined);
+  }, [enabled, stableKey, staleTime]);
+
+  const refetch = useCallback(async () => {
+    if (!enabled) return undefined;
+    return queryCache.revalidate(stableKey, () => fetcherRef.current());
+  }, [enabled, stableKey]);
+
+  return {
+    ...state,
+    isLoading: enabled && state.data === undefined && (state.isFetching || !state.error),
+    refetch,
+  };
+}
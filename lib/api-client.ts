@@ -0,0 +1,221 @@
+// This file is generated by scripts/generate-api-client.mjs from
+// docs/listings-api.openapi.json. Do not edit it by hand; run
+// `npm run generate:api` after changing the OpenAPI document.
+
+import { apiRequest, type ApiRequestOptions } from "@/lib/api";
+
+export type UploadListingImageBody = {
+  file: Blob;
+};
+
+export type HTTPValidationError = {
+  detail?: ValidationError[];
+};
+
+export type ListingCreate = {
+  title: string;
+  description?: string | null;
+  property_type: PropertyType;
+  listing_type: ListingType;
+  price: number;
+  currency: string;
+  city: string;
+  area_sqm: number;
+  rooms: number;
+};
+
+export type ListingImageRead = {
+  id: string;
+  url: string;
+  created_at: string;
+};
+
+export type ListingListRead = {
+  items: ListingRead[];
+  total: number;
+  page: number;
+  page_size: number;
+};
+
+export type ListingRead = {
+  title: string;
+  description?: string | null;
+  property_type: PropertyType;
+  listing_type: ListingType;
+  price: number;
+  currency: string;
+  city: string;
+  area_sqm: number;
+  rooms: number;
+  id: string;
+  user_id: string;
+  created_at: string;
+  images?: ListingImageRead[];
+};
+
+export const listingSortFieldOptions = ["created_at", "price", "area_sqm", "rooms"] as const;
+export type ListingSortField = (typeof listingSortFieldOptions)[number];
+
+export const listingTypeOptions = ["sale", "rent"] as const;
+export type ListingType = (typeof listingTypeOptions)[number];
+
+export type ListingUpdate = {
+  title?: string | null;
+  description?: string | null;
+  property_type?: PropertyType | null;
+  listing_type?: ListingType | null;
+  price?: number | null;
+  currency?: string | null;
+  city?: string | null;
+  area_sqm?: number | null;
+  rooms?: number | null;
+};
+
+export const propertyTypeOptions = ["apartment", "house", "land", "office"] as const;
+export type PropertyType = (typeof propertyTypeOptions)[number];
+
+export const sortOrderOptions = ["asc", "desc"] as const;
+export type SortOrder = (typeof sortOrderOptions)[number];
+
+export type Token = {
+  access_token: string;
+  token_type?: string;
+};
+
+export type UserCreate = {
+  email: string;
+  full_name?: string | null;
+  role?: UserRole;
+  password: string;
+};
+
+export type UserLogin = {
+  email: string;
+  password: string;
+};
+
+export type UserRead = {
+  email: string;
+  full_name?: string | null;
+  role?: UserRole;
+  id: string;
+  created_at: string;
+};
+
+export const userRoleOptions = ["user", "moderator", "admin"] as const;
+export type UserRole = (typeof userRoleOptions)[number];
+
+export type UserUpdate = {
+  email?: string | null;
+  full_name?: string | null;
+  role?: UserRole | null;
+  password?: string | null;
+};
+
+export type ValidationError = {
+  loc: (string | number)[];
+  msg: string;
+  type: string;
+};
+
+export type ListListingsQuery = {
+  page?: number;
+  page_size?: number;
+  sort_by?: ListingSortField;
+  sort_order?: SortOrder;
+  property_type?: PropertyType | null;
+  listing_type?: ListingType | null;
+  city?: string | null;
+  min_price?: number | null;
+  max_price?: number | null;
+  min_area?: number | null;
+  max_area?: number | null;
+  min_rooms?: number | null;
+  max_rooms?: number | null;
+};
+
+/** List Listings: GET /api/v1/listings. */
+export function listListings(query?: ListListingsQuery, options?: ApiRequestOptions) {
+  return apiRequest<ListingListRead>({ method: "GET", path: "/api/v1/listings", query, responseSchema: { $ref: "#/components/schemas/ListingListRead" } }, options);
+}
+
+/** Create Listing: POST /api/v1/listings (bearer token required). */
+export function createListing(body: ListingCreate, options?: ApiRequestOptions) {
+  return apiRequest<ListingRead>({ method: "POST", path: "/api/v1/listings", json: body, responseSchema: { $ref: "#/components/schemas/ListingRead" } }, options);
+}
+
+export type ListMyListingsQuery = {
+  page?: number;
+  page_size?: number;
+  sort_by?: ListingSortField;
+  sort_order?: SortOrder;
+  property_type?: PropertyType | null;
+  listing_type?: ListingType | null;
+  city?: string | null;
+  min_price?: number | null;
+  max_price?: number | null;
+  min_area?: number | null;
+  max_area?: number | null;
+  min_rooms?: number | null;
+  max_rooms?: number | null;
+};
+
+/** List My Listings: GET /api/v1/listings/me (bearer token required). */
+export function listMyListings(query?: ListMyListingsQuery, options?: ApiRequestOptions) {
+  return apiRequest<ListingListRead>({ method: "GET", path: "/api/v1/listings/me", query, responseSchema: { $ref: "#/components/schemas/ListingListRead" } }, options);
+}
+
+/** Get Listing: GET /api/v1/listings/{listing_id}. */
+export function getListing(listingId: string, options?: ApiRequestOptions) {
+  return apiRequest<ListingRead>({ method: "GET", path: `/api/v1/listings/${encodeURIComponent(listingId)}`, responseSchema: { $ref: "#/components/schemas/ListingRead" } }, options);
+}
+
+/** Update Listing: PATCH /api/v1/listings/{listing_id} (bearer token required). */
+export function updateListing(listingId: string, body: ListingUpdate, options?: ApiRequestOptions) {
+  return apiRequest<ListingRead>({ method: "PATCH", path: `/api/v1/listings/${encodeURIComponent(listingId)}`, json: body, responseSchema: { $ref: "#/components/schemas/ListingRead" } }, options);
+}
+
+/** Delete Listing: DELETE /api/v1/listings/{listing_id} (bearer token required). */
+export function deleteListing(listingId: string, options?: ApiRequestOptions) {
+  return apiRequest<void>({ method: "DELETE", path: `/api/v1/listings/${encodeURIComponent(listingId)}` }, options);
+}
+
+/** Upload Listing Image: POST /api/v1/listings/{listing_id}/images (bearer token required). */
+export function uploadListingImage(listingId: string, body: UploadListingImageBody, options?: ApiRequestOptions) {
+  return apiRequest<ListingImageRead>({ method: "POST", path: `/api/v1/listings/${encodeURIComponent(listingId)}/images`, multipart: body, responseSchema: { $ref: "#/components/schemas/ListingImageRead" } }, options);
+}
+
+/** Register User: POST /api/v1/auth/register. */
+export function registerUser(body: UserCreate, options?: ApiRequestOptions) {
+  return apiRequest<UserRead>({ method: "POST", path: "/api/v1/auth/register", json: body, responseSchema: { $ref: "#/components/schemas/UserRead" } }, options);
+}
+
+/** Login: POST /api/v1/auth/login. */
+export function login(body: UserLogin, options?: ApiRequestOptions) {
+  return apiRequest<Token>({ method: "POST", path: "/api/v1/auth/login", json: body, responseSchema: { $ref: "#/components/schemas/Token" } }, options);
+}
+
+/** Read Current User: GET /api/v1/auth/me (bearer token required). */
+export function readCurrentUser(options?: ApiRequestOptions) {
+  return apiRequest<UserRead>({ method: "GET", path: "/api/v1/auth/me", responseSchema: { $ref: "#/components/schemas/UserRead" } }, options);
+}
+
+/** List Users: GET /api/v1/users/ (bearer token required). */
+export function listUsers(options?: ApiRequestOptions) {
+  return apiRequest<UserRead[]>({ method: "GET", path: "/api/v1/users/", responseSchema: { type: "array", items: { $ref: "#/components/schemas/UserRead" } } }, options);
+}
+
+/** Get User: GET /api/v1/users/{user_id} (bearer token required). */
+export function getUser(userId: string, options?: ApiRequestOptions) {
+  return apiRequest<UserRead>({ method: "GET", path: `/api/v1/users/${encodeURIComponent(userId)}`, responseSchema: { $ref: "#/components/schemas/UserRead" } }, options);
+}
+
+/** Update User: PATCH /api/v1/users/{user_id} (bearer token required). */
+export function updateUser(userId: string, body: UserUpdate, options?: ApiRequestOptions) {
+  return apiRequest<UserRead>({ method: "PATCH", path: `/api/v1/users/${encodeURIComponent(userId)}`, json: body, responseSchema: { $ref: "#/components/schemas/UserRead" } }, options);
+}
+
+/** Delete User: DELETE /api/v1/users/{user_id} (bearer token required). */
+export function deleteUser(userId: string, options?: ApiRequestOptions) {
+  return apiRequest<void>({ method: "DELETE", path: `/api/v1/users/${encodeURIComponent(userId)}` }, options);
+}
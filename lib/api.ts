@@ -1,6 +1,8 @@
-export const API_BASE_URL = "https://property-backend.memcommerce.shop";
+import { getApiBaseUrl } from "@/lib/config";
+import { checkResponse } from "@/lib/response-validation";
+import type { JsonSchema } from "@/lib/schema-validation";
 
-type ErrorDetail = { msg?: unknown; } | undefined;
+type ErrorDetail = { loc?: unknown; msg?: unknown; } | undefined;
 
 type ErrorPayload = {
   detail?: unknown;
@@ -29,28 +31,284 @@ export function extractErrorMessage(payload: unknown): string {
   return "Unable to complete the request.";
 }
 
-export async function fetchWithError<T>(input: RequestInfo | URL, init?: RequestInit): Promise<T> {
-  const response = await fetch(input, init);
-  const contentType = response.headers.get("content-type");
-  const hasJson = contentType?.includes("application/json");
+export type FieldErrors = Record<string, string>;
+
+const statusCodes: Record<number, string> = {
+  400: "bad_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  422: "validation_error",
+  429: "rate_limited",
+};
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly payload: unknown;
+  readonly fieldErrors: FieldErrors;
+
+  constructor(status: number, payload: unknown, code?: string) {
+    super(extractErrorMessage(payload));
+    this.name = "ApiError";
+    this.status = status;
+    this.payload = payload;
+    this.fieldErrors = extractFieldErrors(payload);
+
+    if (code) {
+      this.code = code;
+    } else if (isRecord(payload) && typeof payload.code === "string") {
+      this.code = payload.code;
+    } else {
+      this.code = statusCodes[status] ?? (status >= 500 ? "server_error" : "http_error");
+    }
+  }
+}
+
+// FastAPI reports `loc` as e.g. ["body", "area_sqm"]; the leading segment only
+// names where the value came from, so it is dropped from the key.
+export function extractFieldErrors(payload: unknown): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  if (!isRecord(payload) || !Array.isArray(payload.detail)) return fieldErrors;
 
-  let payload: unknown = null;
+  payload.detail.forEach((entry: ErrorDetail) => {
+    if (!isRecord(entry) || typeof entry.msg !== "string" || !Array.isArray(entry.loc)) return;
+
+    const path = entry.loc.filter((segment, index) => {
+      return !(index === 0 && ["body", "query", "path", "header"].includes(String(segment)));
+    });
+    const key = path.join(".");
+    if (key && !fieldErrors[key]) fieldErrors[key] = entry.msg;
+  });
+
+  return fieldErrors;
+}
+
+export function getFieldErrors(error: unknown): FieldErrors {
+  return error instanceof ApiError ? error.fieldErrors : {};
+}
+
+export function getFormErrorMessage(error: unknown, fallback: string): string {
+  if (Object.keys(getFieldErrors(error)).length > 0) return "Please correct the highlighted fields.";
+  return error instanceof Error ? error.message : fallback;
+}
+
+export type RequestPolicy = {
+  /** Abort an attempt that has not produced a response after this many milliseconds. */
+  timeoutMs?: number;
+  /** Extra attempts for idempotent requests that fail with a network error, timeout, 429 or 5xx. */
+  retries?: number;
+  /** Base delay of the exponential backoff between attempts. */
+  backoffMs?: number;
+  /** Upper bound for a single backoff delay, including one requested through `Retry-After`. */
+  maxBackoffMs?: number;
+};
 
-  if (response.status === 204) {
-    payload = null;
-  } else if (hasJson) {
+export const defaultRequestPolicy: Required<RequestPolicy> = {
+  timeoutMs: 15_000,
+  retries: 2,
+  backoffMs: 300,
+  maxBackoffMs: 5_000,
+};
+
+const idempotentMethods = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number, policy: Required<RequestPolicy>) {
+  const ceiling = Math.min(policy.maxBackoffMs, policy.backoffMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function wait(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function readPayload(response: Response): Promise<unknown> {
+  if (response.status === 204) return null;
+
+  const contentType = response.headers.get("content-type");
+  if (contentType?.includes("application/json")) {
     try {
-      payload = await response.json();
+      return await response.json();
     } catch {
-      payload = null;
+      return null;
     }
-  } else {
-    payload = await response.text();
   }
 
-  if (!response.ok) {
-    throw new Error(extractErrorMessage(payload as ErrorPayload));
+  return response.text();
+}
+
+// Runs a single attempt with its own timeout while still honouring the caller's
+// abort signal. Caller aborts are rethrown untouched so components can ignore them.
+async function attemptFetch(
+  input: RequestInfo | URL,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<Response> {
+  const controller = new AbortController();
+  const callerSignal = init.signal;
+  const onAbort = () => controller.abort(callerSignal?.reason);
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  // A signal that is already aborted never fires "abort" again.
+  if (callerSignal?.aborted) onAbort();
+  else callerSignal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    return await fetch(input, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (callerSignal?.aborted) throw error;
+    if (timedOut) throw new ApiError(0, "Request timed out. Please try again.", "timeout");
+    throw new ApiError(0, "Unable to reach the server. Check your connection and try again.", "network_error");
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener("abort", onAbort);
+  }
+}
+
+export async function fetchWithError<T>(
+  input: RequestInfo | URL,
+  init: RequestInit = {},
+  policy: RequestPolicy = {},
+): Promise<T> {
+  const resolved = { ...defaultRequestPolicy, ...policy };
+  const method = (init.method ?? "GET").toUpperCase();
+  const maxAttempts = idempotentMethods.includes(method) ? resolved.retries + 1 : 1;
+
+  for (let attempt = 1; ; attempt += 1) {
+    const canRetry = attempt < maxAttempts;
+    let response: Response;
+
+    try {
+      response = await attemptFetch(input, init, resolved.timeoutMs);
+    } catch (error) {
+      if (!(error instanceof ApiError) || !canRetry) throw error;
+      await wait(backoffDelay(attempt - 1, resolved), init.signal);
+      continue;
+    }
+
+    if (canRetry && isRetryableStatus(response.status)) {
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      if (retryAfter === null || retryAfter <= resolved.maxBackoffMs) {
+        await response.body?.cancel();
+        await wait(retryAfter ?? backoffDelay(attempt - 1, resolved), init.signal);
+        continue;
+      }
+    }
+
+    const payload = await readPayload(response);
+
+    if (!response.ok) {
+      throw new ApiError(response.status, payload as ErrorPayload);
+    }
+
+    return payload as T;
+  }
+}
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export type ApiRequestOptions = Omit<RequestInit, "method" | "body"> & {
+  token?: string | null;
+  policy?: RequestPolicy;
+};
+
+export type ApiRequest = {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  path: string;
+  query?: Record<string, QueryValue>;
+  json?: unknown;
+  multipart?: Record<string, string | Blob>;
+  /** OpenAPI schema of the success response, checked according to the configured validation mode. */
+  responseSchema?: JsonSchema;
+};
+
+export function buildApiUrl(path: string, query?: Record<string, QueryValue>): string {
+  const params = new URLSearchParams();
+
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === "") return;
+    params.set(key, String(value));
+  });
+
+  const search = params.toString();
+  return `${getApiBaseUrl()}${path}${search ? `?${search}` : ""}`;
+}
+
+export type UnauthorizedHandler = (error: ApiError) => void;
+
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+
+/**
+ * Registers the callback invoked when a request is rejected with 401, i.e. the
+ * session expired or was revoked. Sign-in goes through app/api/auth rather than
+ * `apiRequest`, so a failed login never triggers it.
+ */
+export function setUnauthorizedHandler(handler: UnauthorizedHandler | null) {
+  unauthorizedHandler = handler;
+}
+
+export async function apiRequest<T>(request: ApiRequest, options: ApiRequestOptions = {}): Promise<T> {
+  const { token, policy, headers: initHeaders, ...init } = options;
+  const headers = new Headers(initHeaders);
+  let body: BodyInit | undefined;
+
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+
+  if (request.json !== undefined) {
+    headers.set("Content-Type", "application/json");
+    body = JSON.stringify(request.json);
+  } else if (request.multipart) {
+    const formData = new FormData();
+    Object.entries(request.multipart).forEach(([key, value]) => formData.append(key, value));
+    body = formData;
+  }
+
+  let data: unknown;
+  try {
+    data = await fetchWithError<unknown>(
+      buildApiUrl(request.path, request.query),
+      { ...init, method: request.method, headers, body },
+      policy,
+    );
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) unauthorizedHandler?.(error);
+    throw error;
   }
 
-  return payload as T;
+  if (!request.responseSchema) return data as T;
+  return checkResponse<T>(`${request.method} ${request.path}`, request.responseSchema, data);
 }
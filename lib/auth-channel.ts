@@ -0,0 +1,45 @@
+import type { SessionState } from "@/lib/session-client";
+
+export type AuthMessage =
+  | { type: "login"; session: SessionState }
+  | { type: "refresh"; session: SessionState }
+  | { type: "logout" };
+
+export type AuthChannel = {
+  post: (message: AuthMessage) => void;
+  close: () => void;
+};
+
+const CHANNEL_NAME = "propertysystems.auth";
+
+/**
+ * Connects the tabs of this origin so they agree on who is signed in. Uses
+ * BroadcastChannel where available and falls back to `storage` events, which
+ * fire in every other tab when a localStorage key changes.
+ */
+export function openAuthChannel(onMessage: (message: AuthMessage) => void): AuthChannel {
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<AuthMessage>) => onMessage(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== CHANNEL_NAME || !event.newValue) return;
+    try {
+      onMessage((JSON.parse(event.newValue) as { message: AuthMessage }).message);
+    } catch {
+      // Ignore values written by something else.
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+
+  return {
+    // The timestamp makes repeated identical messages still count as a change.
+    post: (message) => localStorage.setItem(CHANNEL_NAME, JSON.stringify({ message, sentAt: Date.now() })),
+    close: () => window.removeEventListener("storage", handleStorage),
+  };
+}
@@ -0,0 +1,43 @@
+const authPages = ["/login", "/logout", "/register", "/forgot-password", "/reset-password"];
+
+// Stands in for the real origin, which this module does not know on the server.
+const BASE_ORIGIN = "http://propertysystems.invalid";
+
+function hasUnsafeCharacters(value: string) {
+  return Array.from(value).some((character) => {
+    const code = character.charCodeAt(0);
+    return code < 0x20 || code === 0x7f || character === "\\";
+  });
+}
+
+/**
+ * Accepts only same-origin paths so `returnTo` cannot be used as an open
+ * redirect, and never sends the user back to an auth page. Control characters
+ * and backslashes are rejected outright because URL parsers drop or rewrite
+ * them ("/\t/evil.com" resolves to another host); whatever is left is resolved
+ * against a fixed origin and must stay on it.
+ */
+export function sanitizeReturnTo(value: string | null | undefined): string {
+  if (!value || !value.startsWith("/") || hasUnsafeCharacters(value)) return "/";
+
+  let url: URL;
+  try {
+    url = new URL(value, BASE_ORIGIN);
+  } catch {
+    return "/";
+  }
+  if (url.origin !== BASE_ORIGIN) return "/";
+
+  if (authPages.some((page) => url.pathname === page || url.pathname.startsWith(`${page}/`))) return "/";
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+export function buildLoginHref(returnTo?: string | null, reason?: "expired"): string {
+  const params = new URLSearchParams();
+  const target = sanitizeReturnTo(returnTo);
+  if (target !== "/") params.set("returnTo", target);
+  if (reason) params.set("reason", reason);
+
+  const search = params.toString();
+  return `/login${search ? `?${search}` : ""}`;
+}
@@ -0,0 +1,36 @@
+import { ApiError } from "@/lib/api";
+
+// Shared pieces of the backend-for-frontend route handlers under app/api.
+
+/**
+ * The session cookie is SameSite=Lax; rejecting cross-origin writes on top of
+ * that keeps other sites from driving authenticated requests through the proxy.
+ */
+export function isSameOrigin(request: Request) {
+  const origin = request.headers.get("origin");
+  if (!origin) return true;
+
+  const host = request.headers.get("x-forwarded-host") ?? request.headers.get("host");
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+export function crossOriginResponse() {
+  return Response.json({ detail: "Cross-origin requests are not allowed" }, { status: 403 });
+}
+
+/** Passes backend errors through unchanged so the browser sees the same payloads. */
+export function errorResponse(error: unknown) {
+  if (error instanceof ApiError) {
+    if (error.status === 0) {
+      return Response.json({ detail: error.message }, { status: error.code === "timeout" ? 504 : 502 });
+    }
+    return Response.json(error.payload ?? { detail: error.message }, { status: error.status });
+  }
+
+  const message = error instanceof Error ? error.message : "Unexpected error occurred.";
+  return Response.json({ detail: message }, { status: 502 });
+}
@@ -0,0 +1,109 @@
+import { cityGazetteer } from "@/lib/city-gazetteer";
+import { foldText } from "@/lib/listing-search";
+
+// City names for the city combobox: canonical spellings, suggestions from the
+// bundled gazetteer and from listings seen this session, and the visitor's
+// recently used cities.
+
+export const RECENT_CITIES_STORAGE_KEY = "propertysystems.recent-cities";
+const MAX_RECENT_CITIES = 5;
+
+/** Trims and collapses whitespace; the display form of what was typed. */
+function tidy(city: string) {
+  return city.trim().replace(/\s+/g, " ");
+}
+
+/** Comparison key: "Berlin", "berlin " and "Berlín" share one. */
+export function cityKey(city: string) {
+  return foldText(tidy(city));
+}
+
+// Cities from listing results, most recently seen first. Kept in memory only:
+// they are a hint, and the next results page brings them back.
+let seenCities: string[] = [];
+
+export function recordSeenCities(cities: string[]) {
+  const fresh = cities.map(tidy).filter(Boolean);
+  const keys = new Set(fresh.map(cityKey));
+  seenCities = [...fresh, ...seenCities.filter((city) => !keys.has(cityKey(city)))].slice(0, 200);
+}
+
+export function readRecentCities(): string[] {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(RECENT_CITIES_STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((city): city is string => typeof city === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function rememberCity(city: string) {
+  const name = tidy(city);
+  if (!name) return;
+  const recent = [name, ...readRecentCities().filter((entry) => cityKey(entry) !== cityKey(name))];
+  localStorage.setItem(RECENT_CITIES_STORAGE_KEY, JSON.stringify(recent.slice(0, MAX_RECENT_CITIES)));
+}
+
+// The gazetteer wins so a misspelt listing cannot spread its spelling.
+function knownSpelling(name: string) {
+  const key = cityKey(name);
+  return cityGazetteer.find((city) => cityKey(city) === key) ?? seenCities.find((city) => cityKey(city) === key);
+}
+
+/** Whether `city` names a gazetteer city or one seen in results, regardless of case and diacritics. */
+export function isKnownCity(city: string) {
+  const name = tidy(city);
+  return name !== "" && knownSpelling(name) !== undefined;
+}
+
+/**
+ * The spelling to store for a typed city: the gazetteer's spelling when the
+ * input matches one regardless of case and diacritics, then a spelling seen in
+ * results, otherwise the input with each word capitalised. Empty input stays
+ * empty.
+ */
+export function normalizeCity(input: string) {
+  const name = tidy(input);
+  if (!name) return "";
+
+  const match = knownSpelling(name);
+  if (match) return tidy(match);
+
+  return name === name.toLowerCase() || name === name.toUpperCase()
+    ? name.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_, separator: string, letter: string) => separator + letter.toUpperCase())
+    : name;
+}
+
+export type CitySuggestion = { city: string; recent: boolean };
+
+/**
+ * Suggestions for what has been typed so far: recent cities first, then ones
+ * seen in results, then the gazetteer. Names starting with the input rank
+ * above names with a word starting with it, which rank above other matches.
+ */
+export function suggestCities(input: string, recent: readonly string[], limit = 8): CitySuggestion[] {
+  const query = cityKey(input);
+  const candidates = new Map<string, CitySuggestion>();
+  [
+    ...recent.map((city) => ({ city, recent: true })),
+    ...[...seenCities, ...cityGazetteer].map((city) => ({ city, recent: false })),
+  ].forEach((candidate) => {
+    const key = cityKey(candidate.city);
+    if (key && !candidates.has(key)) candidates.set(key, { city: tidy(candidate.city), recent: candidate.recent });
+  });
+
+  if (!query) return [...candidates.values()].filter((candidate) => candidate.recent).slice(0, limit);
+
+  const rank = (key: string) => {
+    if (key.startsWith(query)) return 0;
+    if (key.split(/[\s-]/).some((word) => word.startsWith(query))) return 1;
+    return key.includes(query) ? 2 : -1;
+  };
+
+  return [...candidates.entries()]
+    .map(([key, candidate], order) => ({ candidate, score: rank(key), order }))
+    .filter((entry) => entry.score >= 0)
+    .sort((a, b) => a.score - b.score || a.order - b.order)
+    .slice(0, limit)
+    .map((entry) => entry.candidate);
+}
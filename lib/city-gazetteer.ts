@@ -0,0 +1,137 @@
+// Offline list of well-known cities, bundled so the city combobox can suggest
+// canonical spellings without a geocoding service. Names use their common
+// English form, keeping diacritics where that form has them.
+
+export const cityGazetteer = [
+  "Aarhus",
+  "Abu Dhabi",
+  "Adelaide",
+  "Amsterdam",
+  "Antwerp",
+  "Athens",
+  "Atlanta",
+  "Auckland",
+  "Austin",
+  "Bangkok",
+  "Barcelona",
+  "Basel",
+  "Beijing",
+  "Belgrade",
+  "Bergen",
+  "Berlin",
+  "Bilbao",
+  "Birmingham",
+  "Bogotá",
+  "Bologna",
+  "Bordeaux",
+  "Boston",
+  "Bratislava",
+  "Brisbane",
+  "Bristol",
+  "Brussels",
+  "Bucharest",
+  "Budapest",
+  "Buenos Aires",
+  "Calgary",
+  "Cape Town",
+  "Chicago",
+  "Cologne",
+  "Copenhagen",
+  "Córdoba",
+  "Dallas",
+  "Denver",
+  "Dubai",
+  "Dublin",
+  "Düsseldorf",
+  "Edinburgh",
+  "Florence",
+  "Frankfurt",
+  "Geneva",
+  "Genoa",
+  "Ghent",
+  "Glasgow",
+  "Gothenburg",
+  "Granada",
+  "Hamburg",
+  "Helsinki",
+  "Hong Kong",
+  "Houston",
+  "Istanbul",
+  "Johannesburg",
+  "Kraków",
+  "Kyiv",
+  "Las Vegas",
+  "Leeds",
+  "Leipzig",
+  "Lille",
+  "Lima",
+  "Lisbon",
+  "Ljubljana",
+  "London",
+  "Los Angeles",
+  "Lyon",
+  "Madrid",
+  "Málaga",
+  "Malmö",
+  "Manchester",
+  "Marseille",
+  "Medellín",
+  "Melbourne",
+  "Mexico City",
+  "Miami",
+  "Milan",
+  "Minneapolis",
+  "Montevideo",
+  "Montréal",
+  "Munich",
+  "Nantes",
+  "Naples",
+  "New York",
+  "Nice",
+  "Oslo",
+  "Ottawa",
+  "Palermo",
+  "Paris",
+  "Perth",
+  "Philadelphia",
+  "Phoenix",
+  "Porto",
+  "Prague",
+  "Québec City",
+  "Reykjavík",
+  "Riga",
+  "Rio de Janeiro",
+  "Rome",
+  "Rotterdam",
+  "Salzburg",
+  "San Diego",
+  "San Francisco",
+  "Santiago",
+  "São Paulo",
+  "Seattle",
+  "Seoul",
+  "Seville",
+  "Singapore",
+  "Sofia",
+  "Stockholm",
+  "Stuttgart",
+  "Sydney",
+  "Tallinn",
+  "Tel Aviv",
+  "The Hague",
+  "Tokyo",
+  "Toronto",
+  "Toulouse",
+  "Turin",
+  "Utrecht",
+  "Valencia",
+  "Vancouver",
+  "Venice",
+  "Vienna",
+  "Vilnius",
+  "Warsaw",
+  "Washington",
+  "Wrocław",
+  "Zagreb",
+  "Zürich",
+] as const;
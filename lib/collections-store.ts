@@ -0,0 +1,160 @@
+import {
+  createCollection,
+  deleteCollection,
+  isUnavailable,
+  listCollections,
+  updateCollection,
+  type CollectionRead,
+  type CollectionUpdate,
+} from "@/lib/proposed-api";
+
+// Saved-listing collections live behind a small store interface so the same UI
+// works for anonymous visitors (this browser) and signed-in users (their
+// account). Anonymous collections move to the account on the next login. The
+// account endpoints are a proposed backend addition; until a backend has them,
+// signed-in users keep their collections in this browser under their own key.
+
+export type Collection = CollectionRead;
+
+export type CollectionsStore = {
+  list: () => Promise<Collection[]>;
+  create: (name: string, listingIds?: string[]) => Promise<Collection>;
+  update: (id: string, changes: CollectionUpdate) => Promise<Collection>;
+  remove: (id: string) => Promise<void>;
+  /** The localStorage key, for stores kept in this browser. */
+  storageKey?: string;
+  /** Where a signed-in user's collections go when the backend lacks the collections endpoints. */
+  fallback?: CollectionsStore;
+};
+
+/** The collection the heart toggle saves into; created on first use. */
+export const DEFAULT_COLLECTION_NAME = "Favorites";
+
+const LOCAL_COLLECTIONS_STORAGE_KEY = "propertysystems.collections";
+
+function readLocal(storageKey: string): Collection[] {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(storageKey) ?? "[]");
+    return Array.isArray(parsed) ? (parsed as Collection[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocal(storageKey: string, collections: Collection[]) {
+  if (collections.length) {
+    localStorage.setItem(storageKey, JSON.stringify(collections));
+  } else {
+    localStorage.removeItem(storageKey);
+  }
+}
+
+/**
+ * Collections kept in this browser: the anonymous visitor's when `userId` is
+ * null, otherwise that user's, so accounts sharing a browser never see each
+ * other's.
+ */
+export function localCollectionsStore(userId: string | null): CollectionsStore {
+  const storageKey = userId ? `${LOCAL_COLLECTIONS_STORAGE_KEY}.${userId}` : LOCAL_COLLECTIONS_STORAGE_KEY;
+
+  return {
+    storageKey,
+    list: async () => readLocal(storageKey),
+    create: async (name, listingIds = []) => {
+      const collection: Collection = {
+        id: crypto.randomUUID(),
+        name: name.trim(),
+        listing_ids: [...new Set(listingIds)],
+        created_at: new Date().toISOString(),
+      };
+      writeLocal(storageKey, [...readLocal(storageKey), collection]);
+      return collection;
+    },
+    update: async (id, changes) => {
+      const collections = readLocal(storageKey);
+      const current = collections.find((collection) => collection.id === id);
+      if (!current) throw new Error("Collection not found");
+
+      const updated: Collection = {
+        ...current,
+        name: changes.name?.trim() || current.name,
+        listing_ids: changes.listing_ids ? [...new Set(changes.listing_ids)] : current.listing_ids,
+      };
+      writeLocal(storageKey, collections.map((collection) => (collection.id === id ? updated : collection)));
+      return updated;
+    },
+    remove: async (id) => {
+      writeLocal(storageKey, readLocal(storageKey).filter((collection) => collection.id !== id));
+    },
+  };
+}
+
+const accountRequests: CollectionsStore = {
+  list: () => listCollections(),
+  create: (name, listingIds = []) => createCollection({ name: name.trim(), listing_ids: listingIds }),
+  update: (id, changes) => updateCollection(id, changes),
+  remove: (id) => deleteCollection(id),
+};
+
+/** The signed-in user's own collections, kept in their account. */
+export function accountCollectionsStore(userId: string): CollectionsStore {
+  return { ...accountRequests, fallback: localCollectionsStore(userId) };
+}
+
+/**
+ * The collections of the user an administrator is viewing the app as. Their
+ * requests still carry the administrator's token, so the owner is named
+ * explicitly; writes are refused like every other write in that session.
+ */
+export function viewedCollectionsStore(userId: string): CollectionsStore {
+  return { ...accountRequests, list: () => listCollections({ user_id: userId }) };
+}
+
+export type OpenedCollections = {
+  store: CollectionsStore;
+  collections: Collection[];
+};
+
+/**
+ * Loads the collections behind `store`. A signed-in user's own store first
+ * takes over the anonymous collections of this browser. When the backend
+ * lacks the collections endpoints, that store is swapped for its fallback in
+ * this browser and viewed collections are shown as empty.
+ */
+export async function openCollections(store: CollectionsStore): Promise<OpenedCollections> {
+  try {
+    if (store.fallback) await migrateLocalCollections(store);
+    return { store, collections: await store.list() };
+  } catch (error) {
+    if (!isUnavailable(error)) throw error;
+    if (!store.fallback) return { store, collections: [] };
+    await migrateLocalCollections(store.fallback);
+    return { store: store.fallback, collections: await store.fallback.list() };
+  }
+}
+
+/**
+ * Moves this browser's anonymous collections into `target`, merging into collections
+ * with the same name. The local copy is cleared before the first request so
+ * other open tabs do not migrate it again, and restored if the move fails.
+ */
+export async function migrateLocalCollections(target: CollectionsStore) {
+  const pending = readLocal(LOCAL_COLLECTIONS_STORAGE_KEY);
+  if (pending.length === 0) return;
+  writeLocal(LOCAL_COLLECTIONS_STORAGE_KEY, []);
+
+  try {
+    const existing = await target.list();
+    for (const collection of pending) {
+      const match = existing.find((candidate) => candidate.name.toLowerCase() === collection.name.toLowerCase());
+      if (match) {
+        await target.update(match.id, { listing_ids: [...new Set([...match.listing_ids, ...collection.listing_ids])] });
+      } else {
+        await target.create(collection.name, collection.listing_ids);
+      }
+    }
+  } catch (error) {
+    writeLocal(LOCAL_COLLECTIONS_STORAGE_KEY, [...pending, ...readLocal(LOCAL_COLLECTIONS_STORAGE_KEY)]);
+    throw error;
+  }
+}
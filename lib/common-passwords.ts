@@ -0,0 +1,91 @@
+// Passwords that show up at the top of every public breach corpus, plus a few
+// that are specific to this product. Bundled so the check works offline and
+// never sends the candidate password anywhere. Entries are lowercase.
+export const commonPasswords: ReadonlySet<string> = new Set([
+  "000000",
+  "111111",
+  "112233",
+  "121212",
+  "123123",
+  "123321",
+  "1234",
+  "12345",
+  "123456",
+  "1234567",
+  "12345678",
+  "123456789",
+  "1234567890",
+  "123qwe",
+  "1q2w3e",
+  "1q2w3e4r",
+  "1q2w3e4r5t",
+  "1qaz2wsx",
+  "654321",
+  "666666",
+  "696969",
+  "7777777",
+  "987654321",
+  "aa123456",
+  "abc123",
+  "abcd1234",
+  "access",
+  "admin",
+  "administrator",
+  "apartment",
+  "asdf",
+  "asdfgh",
+  "asdfghjkl",
+  "azerty",
+  "baseball",
+  "batman",
+  "charlie",
+  "cheese",
+  "chocolate",
+  "computer",
+  "daniel",
+  "dragon",
+  "football",
+  "freedom",
+  "hello",
+  "helloworld",
+  "home",
+  "house",
+  "iloveyou",
+  "jennifer",
+  "jordan",
+  "killer",
+  "letmein",
+  "login",
+  "lovely",
+  "master",
+  "michael",
+  "monkey",
+  "mustang",
+  "nothing",
+  "passw0rd",
+  "password",
+  "password1",
+  "password12",
+  "password123",
+  "princess",
+  "property",
+  "propertysystems",
+  "qazwsx",
+  "qwerty",
+  "qwerty123",
+  "qwertyuiop",
+  "realestate",
+  "secret",
+  "shadow",
+  "starwars",
+  "summer",
+  "sunshine",
+  "superman",
+  "trustno1",
+  "welcome",
+  "whatever",
+  "winter",
+  "zaq12wsx",
+  "zxcvbn",
+  "zxcvbnm",
+]);
@@ -0,0 +1,81 @@
+// The compare tray: up to four listings picked from the results, kept in
+// localStorage so the selection survives navigation and is shared by tabs.
+// Components read it through `useCompareTray()`.
+
+export const MAX_COMPARED_LISTINGS = 4;
+
+export const COMPARE_STORAGE_KEY = "propertysystems.compare";
+
+/** Just enough of a listing to label it in the tray. */
+export type ComparedListing = {
+  id: string;
+  title: string;
+  coverImage: string | null;
+};
+
+const emptySelection: ComparedListing[] = [];
+const listeners = new Set<() => void>();
+
+// Snapshots must be referentially stable, so parsing is cached per raw value.
+let cached: { raw: string | null; items: ComparedListing[] } = { raw: null, items: emptySelection };
+
+function read(): ComparedListing[] {
+  const raw = localStorage.getItem(COMPARE_STORAGE_KEY);
+  if (raw === cached.raw) return cached.items;
+
+  let items = emptySelection;
+  try {
+    const parsed: unknown = JSON.parse(raw ?? "[]");
+    if (Array.isArray(parsed)) items = (parsed as ComparedListing[]).slice(0, MAX_COMPARED_LISTINGS);
+  } catch {
+    // Ignore values written by something else.
+  }
+  cached = { raw, items };
+  return items;
+}
+
+function write(items: ComparedListing[]) {
+  if (items.length) {
+    localStorage.setItem(COMPARE_STORAGE_KEY, JSON.stringify(items));
+  } else {
+    localStorage.removeItem(COMPARE_STORAGE_KEY);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function handleStorage(event: StorageEvent) {
+  if (event.key === COMPARE_STORAGE_KEY || event.key === null) {
+    listeners.forEach((listener) => listener());
+  }
+}
+
+export const compareStore = {
+  subscribe(listener: () => void) {
+    if (listeners.size === 0) window.addEventListener("storage", handleStorage);
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) window.removeEventListener("storage", handleStorage);
+    };
+  },
+  getSnapshot: read,
+  getServerSnapshot: () => emptySelection,
+  /** Returns false when the tray is already full. */
+  add(item: ComparedListing) {
+    const items = read();
+    if (items.some((entry) => entry.id === item.id)) return true;
+    if (items.length >= MAX_COMPARED_LISTINGS) return false;
+    write([...items, item]);
+    return true;
+  },
+  remove(id: string) {
+    write(read().filter((entry) => entry.id !== id));
+  },
+  clear() {
+    write([]);
+  },
+};
+
+export function compareHref(ids: string[]) {
+  return ids.length ? `/listings/compare?ids=${ids.join(",")}` : "/listings/compare";
+}
@@ -0,0 +1,74 @@
+const DEFAULT_API_BASE_URL = "https://property-backend.memcommerce.shop";
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+export const responseValidationModes = ["strict", "report", "off"] as const;
+export type ResponseValidationMode = (typeof responseValidationModes)[number];
+
+export type ApiConfig = {
+  /**
+   * Backend origin used by server components and the route handlers under
+   * app/api. The browser never calls it directly; it goes through the
+   * same-origin proxy so the session cookie can be turned into a bearer token.
+   */
+  backendBaseUrl: string;
+  /** How API responses that do not match the OpenAPI schemas are handled. */
+  responseValidation: ResponseValidationMode;
+};
+
+/** Browser requests use relative `/api/v1/...` URLs handled by the proxy in app/api/v1. */
+const BROWSER_BASE_URL = "";
+
+function parseBaseUrl(name: string, raw: string | undefined): string | null {
+  const value = raw?.trim();
+  if (!value) return null;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ConfigError(`${name} must be an absolute URL such as http://localhost:8000 (received "${value}").`);
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new ConfigError(`${name} must use http or https (received "${url.protocol}").`);
+  }
+
+  if (url.search || url.hash) {
+    throw new ConfigError(`${name} must not include a query string or fragment (received "${value}").`);
+  }
+
+  return `${url.origin}${url.pathname}`.replace(/\/+$/, "");
+}
+
+function parseResponseValidation(raw: string | undefined): ResponseValidationMode {
+  const value = raw?.trim().toLowerCase();
+  if (!value) return process.env.NODE_ENV === "production" ? "report" : "strict";
+
+  if (!responseValidationModes.includes(value as ResponseValidationMode)) {
+    throw new ConfigError(
+      `NEXT_PUBLIC_API_RESPONSE_VALIDATION must be one of ${responseValidationModes.join(", ")} (received "${raw}").`,
+    );
+  }
+  return value as ResponseValidationMode;
+}
+
+// NEXT_PUBLIC_* variables are inlined at build time, so they must be read with
+// literal property access rather than through a dynamic key.
+export function loadApiConfig(): ApiConfig {
+  const backendBaseUrl = parseBaseUrl("API_BASE_URL", process.env.API_BASE_URL) ?? DEFAULT_API_BASE_URL;
+  const responseValidation = parseResponseValidation(process.env.NEXT_PUBLIC_API_RESPONSE_VALIDATION);
+
+  return { backendBaseUrl, responseValidation };
+}
+
+export const apiConfig = loadApiConfig();
+
+export function getApiBaseUrl(): string {
+  return typeof window === "undefined" ? apiConfig.backendBaseUrl : BROWSER_BASE_URL;
+}
@@ -0,0 +1,201 @@
+import {
+  listingSortFieldOptions as sortFieldOptions,
+  listingTypeOptions,
+  propertyTypeOptions,
+  sortOrderOptions,
+  type ListListingsQuery,
+} from "@/lib/api-client";
+import type { ListingsSearchQuery } from "@/lib/proposed-api";
+
+// The listings explorer's filters, and how they map to the API query and to
+// the page URL. URL parameters use the API's names so a shared link reads the
+// same as the request it produces.
+
+export const pageSizeOptions = [6, 9, 12, 20, 30, 50] as const;
+
+/**
+ * Re-orders the listings already fetched by price per sqm, which the API cannot
+ * sort by. Kept apart from `sortBy` because it only reorders this page (or, in
+ * the infinite list, what has loaded so far); "" keeps the API's order.
+ */
+export const pageSortOptions = ["", "price_per_sqm_asc", "price_per_sqm_desc"] as const;
+
+/** Numbered pages, or one long list that loads the next page while scrolling. */
+export const viewOptions = ["pages", "scroll"] as const;
+
+export type FiltersState = {
+  propertyType: string;
+  listingType: string;
+  /** Free-text search over title and description; `q` in the API and the URL. */
+  keywords: string;
+  city: string;
+  minPrice: string;
+  maxPrice: string;
+  minArea: string;
+  maxArea: string;
+  minRooms: string;
+  maxRooms: string;
+  /** Applied to the fetched page only; see `applyPricePerSqmFilters`. */
+  minPricePerSqm: string;
+  maxPricePerSqm: string;
+  pageSort: (typeof pageSortOptions)[number];
+  sortBy: (typeof sortFieldOptions)[number];
+  sortOrder: (typeof sortOrderOptions)[number];
+  page: number;
+  pageSize: (typeof pageSizeOptions)[number];
+  view: (typeof viewOptions)[number];
+};
+
+export const initialFilters: FiltersState = {
+  propertyType: "",
+  listingType: "",
+  keywords: "",
+  city: "",
+  minPrice: "",
+  maxPrice: "",
+  minArea: "",
+  maxArea: "",
+  minRooms: "",
+  maxRooms: "",
+  minPricePerSqm: "",
+  maxPricePerSqm: "",
+  pageSort: "",
+  sortBy: "created_at",
+  sortOrder: "desc",
+  page: 1,
+  pageSize: 12,
+  view: "pages",
+};
+
+/** Filters typed into text inputs; changes to them are debounced into the URL. */
+export const textFilterKeys = [
+  "keywords",
+  "city",
+  "minPrice",
+  "maxPrice",
+  "minArea",
+  "maxArea",
+  "minRooms",
+  "maxRooms",
+  "minPricePerSqm",
+  "maxPricePerSqm",
+] as const;
+
+/** Filters applied to the fetched page rather than sent to the API; changing them keeps the page number. */
+export const pageLocalFilterKeys = ["minPricePerSqm", "maxPricePerSqm", "pageSort"] as const;
+
+type PricePerSqmFilterKey = "minPricePerSqm" | "maxPricePerSqm";
+type NumericFilterKey = Exclude<(typeof textFilterKeys)[number], "keywords" | "city" | PricePerSqmFilterKey>;
+
+const numericFields: Array<[NumericFilterKey, keyof ListListingsQuery]> = [
+  ["minPrice", "min_price"],
+  ["maxPrice", "max_price"],
+  ["minArea", "min_area"],
+  ["maxArea", "max_area"],
+  ["minRooms", "min_rooms"],
+  ["maxRooms", "max_rooms"],
+];
+
+// Not API parameters: these bounds are applied to each page of results by
+// `applyPricePerSqmFilters` in lib/listing-metrics.ts.
+const pricePerSqmFields: Array<[PricePerSqmFilterKey, string]> = [
+  ["minPricePerSqm", "min_price_per_sqm"],
+  ["maxPricePerSqm", "max_price_per_sqm"],
+];
+
+/** The API query for `filters`; `q` is a proposed parameter that current backends ignore. */
+export type ListingsQuery = ListListingsQuery & ListingsSearchQuery;
+
+export function buildListingsQuery(filters: FiltersState): ListingsQuery {
+  const query: ListingsQuery = {
+    page: filters.page,
+    page_size: filters.pageSize,
+    sort_by: filters.sortBy,
+    sort_order: filters.sortOrder,
+  };
+
+  if (filters.propertyType) query.property_type = filters.propertyType as ListListingsQuery["property_type"];
+  if (filters.listingType) query.listing_type = filters.listingType as ListListingsQuery["listing_type"];
+  if (filters.keywords.trim()) query.q = filters.keywords.trim();
+  if (filters.city.trim()) query.city = filters.city.trim();
+
+  numericFields.forEach(([stateKey, queryKey]) => {
+    const raw = filters[stateKey];
+    const value = Number(raw);
+    if (raw !== "" && Number.isFinite(value)) {
+      (query as Record<string, number>)[queryKey] = value;
+    }
+  });
+
+  return query;
+}
+
+/** What `useSearchParams()` returns, or a server page's resolved `searchParams`. */
+export type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>;
+
+function readParam(params: SearchParamsInput, name: string): string | undefined {
+  const value = params instanceof URLSearchParams ? params.get(name) : params[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+}
+
+function oneOf<T extends string | number>(options: readonly T[], value: string | undefined, fallback: T): T {
+  return options.find((option) => String(option) === value) ?? fallback;
+}
+
+/**
+ * Reads filters from the URL. Values outside the option arrays, negative or
+ * non-numeric bounds and invalid page numbers fall back to the defaults, so a
+ * hand-edited link never produces a request the backend would reject.
+ */
+export function parseFilters(params: SearchParamsInput): FiltersState {
+  const filters: FiltersState = {
+    ...initialFilters,
+    propertyType: oneOf(propertyTypeOptions, readParam(params, "property_type"), ""),
+    listingType: oneOf(listingTypeOptions, readParam(params, "listing_type"), ""),
+    keywords: readParam(params, "q") ?? "",
+    city: readParam(params, "city") ?? "",
+    pageSort: oneOf(pageSortOptions, readParam(params, "page_sort"), initialFilters.pageSort),
+    sortBy: oneOf(sortFieldOptions, readParam(params, "sort_by"), initialFilters.sortBy),
+    sortOrder: oneOf(sortOrderOptions, readParam(params, "sort_order"), initialFilters.sortOrder),
+    pageSize: oneOf(pageSizeOptions, readParam(params, "page_size"), initialFilters.pageSize),
+    view: oneOf(viewOptions, readParam(params, "view"), initialFilters.view),
+  };
+
+  // The infinite list always starts from the top.
+  const page = Number(readParam(params, "page"));
+  if (filters.view === "pages" && Number.isInteger(page) && page >= 1) filters.page = page;
+
+  [...numericFields, ...pricePerSqmFields].forEach(([stateKey, queryKey]) => {
+    const raw = readParam(params, queryKey);
+    const value = Number(raw);
+    if (raw !== undefined && Number.isFinite(value) && value >= 0) filters[stateKey] = raw;
+  });
+
+  return filters;
+}
+
+/**
+ * Serialises filters for the URL, leaving out defaults so links stay short.
+ * `view`, `page_sort` and the price-per-sqm bounds are the only parameters that
+ * are not sent to the API.
+ */
+export function filtersToSearchParams(filters: FiltersState): URLSearchParams {
+  const params = new URLSearchParams();
+  const query = buildListingsQuery(filters);
+  const defaults = buildListingsQuery(initialFilters);
+
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== defaults[key as keyof ListingsQuery]) {
+      params.set(key, String(value));
+    }
+  });
+  if (filters.pageSort) params.set("page_sort", filters.pageSort);
+  pricePerSqmFields.forEach(([stateKey, param]) => {
+    const raw = filters[stateKey].trim();
+    if (raw !== "" && Number.isFinite(Number(raw))) params.set(param, raw);
+  });
+  if (filters.view !== initialFilters.view) params.set("view", filters.view);
+
+  return params;
+}
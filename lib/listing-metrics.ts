@@ -0,0 +1,85 @@
+import type { ListingRead } from "@/lib/api-client";
+import type { FiltersState } from "@/lib/listing-filters";
+
+// Figures derived from listings that the API does not compute. Everything here
+// works on the listings already fetched, so medians describe the current
+// result set rather than the whole market.
+
+/** Price divided by area, or null for listings without a usable area. */
+export function pricePerSqm(listing: Pick<ListingRead, "price" | "area_sqm">): number | null {
+  return listing.area_sqm > 0 ? listing.price / listing.area_sqm : null;
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Rents and sale prices, or prices in different currencies, are not
+// comparable, so medians are per city, listing type and currency.
+function medianKey(listing: Pick<ListingRead, "city" | "currency" | "listing_type">) {
+  return `${listing.city.trim().toLowerCase()}|${listing.listing_type}|${listing.currency}`;
+}
+
+export type CityMedians = Map<string, number>;
+
+/** Median price per sqm for every city (and listing type) with at least two listings in `listings`. */
+export function cityMedians(listings: ListingRead[]): CityMedians {
+  const groups = new Map<string, number[]>();
+  listings.forEach((listing) => {
+    const value = pricePerSqm(listing);
+    if (value === null) return;
+    const key = medianKey(listing);
+    groups.set(key, [...(groups.get(key) ?? []), value]);
+  });
+
+  const medians: CityMedians = new Map();
+  groups.forEach((values, key) => {
+    if (values.length >= 2) medians.set(key, median(values));
+  });
+  return medians;
+}
+
+export function cityMedianFor(listing: ListingRead, medians: CityMedians): number | undefined {
+  return medians.get(medianKey(listing));
+}
+
+function parseBound(raw: string) {
+  const value = Number(raw);
+  return raw.trim() !== "" && Number.isFinite(value) ? value : null;
+}
+
+/** Whether `filters` narrow the fetched listings by price per sqm. */
+export function hasPricePerSqmBounds(filters: FiltersState) {
+  return parseBound(filters.minPricePerSqm) !== null || parseBound(filters.maxPricePerSqm) !== null;
+}
+
+/**
+ * Applies the price-per-sqm bounds and `pageSort` from `filters`, which the API
+ * does not support, to listings that have already been fetched. Totals and
+ * pagination from the API do not account for them.
+ */
+export function applyPricePerSqmFilters(listings: ListingRead[], filters: FiltersState): ListingRead[] {
+  const min = parseBound(filters.minPricePerSqm);
+  const max = parseBound(filters.maxPricePerSqm);
+
+  const filtered =
+    min === null && max === null
+      ? listings
+      : listings.filter((listing) => {
+          const value = pricePerSqm(listing);
+          return value !== null && (min === null || value >= min) && (max === null || value <= max);
+        });
+
+  if (!filters.pageSort) return filtered;
+
+  const direction = filters.pageSort === "price_per_sqm_asc" ? 1 : -1;
+  // Listings without an area sort last in either direction.
+  return [...filtered].sort((a, b) => {
+    const left = pricePerSqm(a);
+    const right = pricePerSqm(b);
+    if (left === null || right === null) return (left === null ? 1 : 0) - (right === null ? 1 : 0);
+    return (left - right) * direction;
+  });
+}
@@ -0,0 +1,77 @@
+import type { ListingRead } from "@/lib/api-client";
+
+// Keyword search over listing titles and descriptions. The mock backend uses
+// the same matching for its `q` parameter, and the listings page re-applies it
+// to whatever the API returns, so a backend that ignores `q` still narrows
+// the results (page by page) instead of showing everything.
+
+/** Lowercases and strips diacritics, so "Café" and "cafe" compare equal. */
+export function foldText(text: string) {
+  return text.normalize("NFD").replace(/\p{Diacritic}/gu, "").toLowerCase();
+}
+
+/** Splits a query into folded terms; `"sea view"` in quotes stays one term. */
+export function parseKeywords(query: string | null | undefined): string[] {
+  const terms: string[] = [];
+  for (const match of (query ?? "").matchAll(/"([^"]*)"|(\S+)/g)) {
+    const term = foldText((match[1] ?? match[2]).trim().replace(/\s+/g, " "));
+    if (term && !terms.includes(term)) terms.push(term);
+  }
+  return terms;
+}
+
+/** True when every term appears in the title or the description. */
+export function matchesKeywords(listing: Pick<ListingRead, "title" | "description">, terms: string[]) {
+  if (terms.length === 0) return true;
+  const haystack = foldText(`${listing.title}\n${listing.description ?? ""}`);
+  return terms.every((term) => haystack.includes(term));
+}
+
+export function filterByKeywords<T extends Pick<ListingRead, "title" | "description">>(listings: T[], terms: string[]) {
+  return terms.length ? listings.filter((listing) => matchesKeywords(listing, terms)) : listings;
+}
+
+export type TextRange = { start: number; end: number };
+
+/**
+ * Where the terms occur in `text`, as ranges of the original string. Folding
+ * can change the length of a string, so each folded character remembers the
+ * original one it came from.
+ */
+export function findKeywordRanges(text: string, terms: string[]): TextRange[] {
+  if (terms.length === 0 || !text) return [];
+
+  let folded = "";
+  const origins: number[] = [];
+  let offset = 0;
+  for (const character of text) {
+    const piece = foldText(character);
+    folded += piece;
+    for (let i = 0; i < piece.length; i += 1) origins.push(offset);
+    offset += character.length;
+  }
+
+  const ranges: TextRange[] = [];
+  terms.forEach((term) => {
+    let from = folded.indexOf(term);
+    while (from !== -1) {
+      const last = origins[from + term.length - 1];
+      // The end is just past the original character holding the last match.
+      const end = last + String.fromCodePoint(text.codePointAt(last) ?? 0).length;
+      ranges.push({ start: origins[from], end });
+      from = folded.indexOf(term, from + term.length);
+    }
+  });
+
+  // Merge overlaps so nested or adjacent terms produce a single highlight.
+  ranges.sort((a, b) => a.start - b.start);
+  return ranges.reduce<TextRange[]>((merged, range) => {
+    const previous = merged[merged.length - 1];
+    if (previous && range.start <= previous.end) {
+      previous.end = Math.max(previous.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+}
@@ -0,0 +1,57 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+
+const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60;
+
+function tokenTtl() {
+  const ttl = Number(process.env.MOCK_API_TOKEN_TTL);
+  return Number.isInteger(ttl) && ttl > 0 ? ttl : DEFAULT_TOKEN_TTL_SECONDS;
+}
+
+function secret() {
+  return process.env.MOCK_API_SECRET || "propertysystems-mock-secret";
+}
+
+function base64url(input: Buffer | string) {
+  return Buffer.from(input).toString("base64url");
+}
+
+export function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const hash = scryptSync(password, salt, 32).toString("hex");
+  return `${salt}:${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string) {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const candidate = scryptSync(password, salt, 32);
+  return timingSafeEqual(candidate, Buffer.from(hash, "hex"));
+}
+
+/** Issues an HS256 JWT shaped like the real backend's: `sub` is the user id. */
+export function signAccessToken(userId: string, ttlSeconds = tokenTtl()) {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(JSON.stringify({ sub: userId, iat: issuedAt, exp: issuedAt + ttlSeconds }));
+  const signature = createHmac("sha256", secret()).update(`${header}.${payload}`).digest("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+/** Returns the token's subject, or null when the signature or expiry is invalid. */
+export function verifyAccessToken(token: string): string | null {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+
+  const expected = createHmac("sha256", secret()).update(`${header}.${payload}`).digest();
+  const received = Buffer.from(signature, "base64url");
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as { sub?: unknown; exp?: unknown };
+    if (typeof claims.sub !== "string") return null;
+    if (typeof claims.exp === "number" && claims.exp * 1000 < Date.now()) return null;
+    return claims.sub;
+  } catch {
+    return null;
+  }
+}
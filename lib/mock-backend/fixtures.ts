@@ -0,0 +1,351 @@
+import type { ListingType, PropertyType, UserRole } from "@/lib/api-client";
+
+export const FIXTURE_PASSWORD = "password123";
+
+type UserFixture = {
+  id: string;
+  email: string;
+  full_name: string;
+  role: UserRole;
+  created_at: string;
+};
+
+type ListingFixture = {
+  title: string;
+  description: string;
+  property_type: PropertyType;
+  listing_type: ListingType;
+  price: number;
+  currency: string;
+  city: string;
+  area_sqm: number;
+  rooms: number;
+  owner: number;
+  image?: string;
+};
+
+function fixtureId(prefix: string, index: number) {
+  return `00000000-0000-4000-8000-${prefix}${String(index).padStart(12 - prefix.length, "0")}`;
+}
+
+const userSeeds: Omit<UserFixture, "id" | "created_at">[] = [
+  { email: "admin@propertysystems.dev", full_name: "Avery Admin", role: "admin" },
+  { email: "moderator@propertysystems.dev", full_name: "Morgan Moderator", role: "moderator" },
+  { email: "agent@propertysystems.dev", full_name: "Alex Agent", role: "user" },
+  { email: "buyer@propertysystems.dev", full_name: "Bailey Buyer", role: "user" },
+];
+
+export const userFixtures: UserFixture[] = userSeeds.map((user, index) => ({
+  ...user,
+  id: fixtureId("a", index + 1),
+  created_at: new Date(Date.UTC(2025, 0, 6 + index * 9, 9)).toISOString(),
+}));
+
+const listingSeeds: ListingFixture[] = [
+  {
+    title: "Sunlit loft near Mauerpark",
+    description: "Open-plan loft with floor-to-ceiling windows, oak floors and a south-facing balcony.",
+    property_type: "apartment",
+    listing_type: "sale",
+    price: 489000,
+    currency: "EUR",
+    city: "Berlin",
+    area_sqm: 92,
+    rooms: 3,
+    owner: 2,
+    image: "/branding/landing-page-image-01.png",
+  },
+  {
+    title: "Family house with garden in Zehlendorf",
+    description: "Detached house on a quiet street, renovated kitchen, large garden and garage.",
+    property_type: "house",
+    listing_type: "sale",
+    price: 1150000,
+    currency: "EUR",
+    city: "Berlin",
+    area_sqm: 210,
+    rooms: 6,
+    owner: 2,
+  },
+  {
+    title: "Furnished studio in Kreuzberg",
+    description: "Compact studio close to the canal, fully furnished, available for long-term rent.",
+    property_type: "apartment",
+    listing_type: "rent",
+    price: 1150,
+    currency: "EUR",
+    city: "Berlin",
+    area_sqm: 34,
+    rooms: 1,
+    owner: 3,
+  },
+  {
+    title: "Riverside apartment in Alfama",
+    description: "Traditional building with restored tiles, sea view over the Tagus and a small terrace.",
+    property_type: "apartment",
+    listing_type: "sale",
+    price: 620000,
+    currency: "EUR",
+    city: "Lisbon",
+    area_sqm: 105,
+    rooms: 3,
+    owner: 2,
+    image: "/branding/landing-page-image-01.png",
+  },
+  {
+    title: "Co-working floor in Cais do Sodré",
+    description: "Bright office floor with meeting rooms, fibre internet and river access.",
+    property_type: "office",
+    listing_type: "rent",
+    price: 4800,
+    currency: "EUR",
+    city: "Lisbon",
+    area_sqm: 240,
+    rooms: 8,
+    owner: 1,
+  },
+  {
+    title: "Building plot in Sintra hills",
+    description: "Gently sloping plot with approved plans for a single-family villa.",
+    property_type: "land",
+    listing_type: "sale",
+    price: 185000,
+    currency: "EUR",
+    city: "Lisbon",
+    area_sqm: 1200,
+    rooms: 0,
+    owner: 3,
+  },
+  {
+    title: "Eixample apartment with balcony",
+    description: "Modernista building, high ceilings, two balconies and a renovated bathroom.",
+    property_type: "apartment",
+    listing_type: "sale",
+    price: 545000,
+    currency: "EUR",
+    city: "Barcelona",
+    area_sqm: 98,
+    rooms: 4,
+    owner: 2,
+  },
+  {
+    title: "Beachfront flat in Barceloneta",
+    description: "Steps from the beach with sea view, air conditioning and a shared rooftop.",
+    property_type: "apartment",
+    listing_type: "rent",
+    price: 2100,
+    currency: "EUR",
+    city: "Barcelona",
+    area_sqm: 68,
+    rooms: 2,
+    owner: 3,
+    image: "/branding/landing-page-image-01.png",
+  },
+  {
+    title: "Canal house on Prinsengracht",
+    description: "Historic canal house over four floors with a private garden and roof terrace.",
+    property_type: "house",
+    listing_type: "sale",
+    price: 2450000,
+    currency: "EUR",
+    city: "Amsterdam",
+    area_sqm: 260,
+    rooms: 7,
+    owner: 1,
+  },
+  {
+    title: "Houseboat in Jordaan",
+    description: "Characterful houseboat with wood stove, deck and mooring rights included.",
+    property_type: "house",
+    listing_type: "rent",
+    price: 2900,
+    currency: "EUR",
+    city: "Amsterdam",
+    area_sqm: 75,
+    rooms: 3,
+    owner: 2,
+  },
+  {
+    title: "Startup office in Zuidas",
+    description: "Move-in ready office with reception, kitchen and bike storage.",
+    property_type: "office",
+    listing_type: "rent",
+    price: 7600,
+    currency: "EUR",
+    city: "Amsterdam",
+    area_sqm: 310,
+    rooms: 10,
+    owner: 1,
+  },
+  {
+    title: "Victorian flat in Notting Hill",
+    description: "First-floor flat with bay windows, period features and a communal garden.",
+    property_type: "apartment",
+    listing_type: "sale",
+    price: 1350000,
+    currency: "GBP",
+    city: "London",
+    area_sqm: 88,
+    rooms: 3,
+    owner: 2,
+  },
+  {
+    title: "Shoreditch warehouse conversion",
+    description: "Double-height living space, exposed brick and a private balcony.",
+    property_type: "apartment",
+    listing_type: "rent",
+    price: 3400,
+    currency: "GBP",
+    city: "London",
+    area_sqm: 82,
+    rooms: 2,
+    owner: 3,
+    image: "/branding/landing-page-image-01.png",
+  },
+  {
+    title: "Haussmann apartment near Parc Monceau",
+    description: "Elegant apartment with moulded ceilings, parquet floors and a balcony.",
+    property_type: "apartment",
+    listing_type: "sale",
+    price: 1890000,
+    currency: "EUR",
+    city: "Paris",
+    area_sqm: 140,
+    rooms: 5,
+    owner: 2,
+  },
+  {
+    title: "Marais pied-à-terre",
+    description: "Quiet courtyard studio in the heart of the Marais, ideal for short stays.",
+    property_type: "apartment",
+    listing_type: "rent",
+    price: 1650,
+    currency: "EUR",
+    city: "Paris",
+    area_sqm: 29,
+    rooms: 1,
+    owner: 3,
+  },
+  {
+    title: "Victorian house in Noe Valley",
+    description: "Restored Victorian with bay views, chef's kitchen and a landscaped backyard.",
+    property_type: "house",
+    listing_type: "sale",
+    price: 2795000,
+    currency: "USD",
+    city: "San Francisco",
+    area_sqm: 220,
+    rooms: 5,
+    owner: 2,
+    image: "/branding/landing-page-image-01.png",
+  },
+  {
+    title: "SoMa office suite",
+    description: "Creative office suite with polished concrete floors and skylights.",
+    property_type: "office",
+    listing_type: "rent",
+    price: 9500,
+    currency: "USD",
+    city: "San Francisco",
+    area_sqm: 280,
+    rooms: 6,
+    owner: 1,
+  },
+  {
+    title: "Mission District two-bedroom",
+    description: "Top-floor unit with in-unit laundry, balcony and city views.",
+    property_type: "apartment",
+    listing_type: "rent",
+    price: 4200,
+    currency: "USD",
+    city: "San Francisco",
+    area_sqm: 84,
+    rooms: 2,
+    owner: 3,
+  },
+  {
+    title: "Hill Country ranch land",
+    description: "Rolling acreage with a seasonal creek, oak trees and road frontage.",
+    property_type: "land",
+    listing_type: "sale",
+    price: 640000,
+    currency: "USD",
+    city: "Austin",
+    area_sqm: 40000,
+    rooms: 0,
+    owner: 2,
+  },
+  {
+    title: "East Austin modern home",
+    description: "Contemporary home with a rooftop deck, solar panels and a detached studio.",
+    property_type: "house",
+    listing_type: "sale",
+    price: 875000,
+    currency: "USD",
+    city: "Austin",
+    area_sqm: 185,
+    rooms: 4,
+    owner: 3,
+  },
+  {
+    title: "Downtown Austin condo",
+    description: "High-floor condo with lake views, gym and pool in the building.",
+    property_type: "apartment",
+    listing_type: "rent",
+    price: 2600,
+    currency: "USD",
+    city: "Austin",
+    area_sqm: 72,
+    rooms: 2,
+    owner: 2,
+  },
+  {
+    title: "Gràcia townhouse with patio",
+    description: "Three-storey townhouse with an interior patio and a rooftop terrace.",
+    property_type: "house",
+    listing_type: "sale",
+    price: 965000,
+    currency: "EUR",
+    city: "Barcelona",
+    area_sqm: 175,
+    rooms: 5,
+    owner: 1,
+  },
+  {
+    title: "Prenzlauer Berg office loft",
+    description: "Former factory floor converted into a bright office with a balcony.",
+    property_type: "office",
+    listing_type: "sale",
+    price: 1480000,
+    currency: "EUR",
+    city: "Berlin",
+    area_sqm: 330,
+    rooms: 9,
+    owner: 1,
+  },
+  {
+    title: "Canary Wharf one-bedroom",
+    description: "Modern apartment with concierge, gym and river views from the balcony.",
+    property_type: "apartment",
+    listing_type: "sale",
+    price: 565000,
+    currency: "GBP",
+    city: "London",
+    area_sqm: 54,
+    rooms: 1,
+    owner: 3,
+  },
+];
+
+export const listingFixtures = listingSeeds.map((seed, index) => {
+  const { owner, image, ...listing } = seed;
+  const created_at = new Date(Date.UTC(2025, 5, 1 + index * 4, 10)).toISOString();
+
+  return {
+    ...listing,
+    id: fixtureId("b", index + 1),
+    user_id: userFixtures[owner].id,
+    created_at,
+    images: image ? [{ id: fixtureId("c", index + 1), url: image, created_at }] : [],
+  };
+});
@@ -0,0 +1,660 @@
+import { randomBytes, randomUUID } from "node:crypto";
+
+import openapi from "@/docs/listings-api.openapi.json";
+import proposed from "@/docs/proposed-api.openapi.json";
+import type {
+  ListingCreate,
+  ListingRead,
+  ListingSortField,
+  ListingUpdate,
+  SortOrder,
+  UserCreate,
+  UserLogin,
+  UserRole,
+  UserUpdate,
+} from "@/lib/api-client";
+import { matchesKeywords, parseKeywords } from "@/lib/listing-search";
+import type {
+  AccountUpdate,
+  CollectionCreate,
+  CollectionRead,
+  CollectionUpdate,
+  ImpersonationCreate,
+  PasswordResetConfirm,
+  PasswordResetRequest,
+} from "@/lib/proposed-api";
+import {
+  resolveSchema,
+  validateSchema,
+  validateValue,
+  type JsonSchema,
+  type SchemaIssue,
+} from "@/lib/schema-validation";
+
+import { hashPassword, signAccessToken, verifyAccessToken, verifyPassword } from "./auth";
+import { getMockDatabase, toUserRead, type StoredCollection, type StoredUser } from "./store";
+
+const RESET_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+export function isMockApiEnabled() {
+  return process.env.MOCK_API === "1" || process.env.MOCK_API === "true";
+}
+
+type ListingQuery = {
+  page: number;
+  page_size: number;
+  sort_by: ListingSortField;
+  sort_order: SortOrder;
+  property_type?: string | null;
+  listing_type?: string | null;
+  city?: string | null;
+  q?: string | null;
+  min_price?: number | null;
+  max_price?: number | null;
+  min_area?: number | null;
+  max_area?: number | null;
+  min_rooms?: number | null;
+  max_rooms?: number | null;
+};
+
+type Parameter = { name: string; in: string; schema: JsonSchema };
+
+// The mock also implements the proposed `q` keyword parameter.
+const listingParameters = [
+  ...openapi.paths["/api/v1/listings"].get.parameters,
+  ...proposed.paths["/api/v1/listings"].get.parameters,
+] as Parameter[];
+
+function json(body: unknown, status = 200, headers?: HeadersInit) {
+  return Response.json(body, { status, headers });
+}
+
+function detail(status: number, message: string) {
+  const headers = status === 401 ? { "WWW-Authenticate": "Bearer" } : undefined;
+  return json({ detail: message }, status, headers);
+}
+
+function validationError(issues: SchemaIssue[]) {
+  return json({ detail: issues }, 422);
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+function requireUser(request: Request): StoredUser | Response {
+  const header = request.headers.get("authorization") ?? "";
+  const [scheme, token] = header.split(" ");
+  if (scheme?.toLowerCase() !== "bearer" || !token) return detail(401, "Not authenticated");
+
+  const userId = verifyAccessToken(token);
+  const user = userId ? getMockDatabase().users.get(userId) : undefined;
+  return user ?? detail(401, "Could not validate credentials");
+}
+
+function hasRole(user: StoredUser, roles: UserRole[]) {
+  return roles.includes(user.role ?? "user");
+}
+
+function checkUuid(value: string, name: string): Response | null {
+  const issues = validateValue({ type: "string", format: "uuid" }, value, ["path", name]);
+  return issues.length ? validationError(issues) : null;
+}
+
+function isNumericSchema(schema: JsonSchema): boolean {
+  const resolved = resolveSchema(schema);
+  if (resolved.anyOf) return resolved.anyOf.some(isNumericSchema);
+  return resolved.type === "integer" || resolved.type === "number";
+}
+
+// Query parameters arrive as strings; numeric ones are converted before being
+// checked against the parameter schemas from the OpenAPI document.
+function parseListingQuery(url: URL): ListingQuery | Response {
+  const values: Record<string, unknown> = {};
+  const issues: SchemaIssue[] = [];
+
+  for (const parameter of listingParameters) {
+    const raw = url.searchParams.get(parameter.name);
+    if (raw === null || raw === "") {
+      if (parameter.schema.default !== undefined) values[parameter.name] = parameter.schema.default;
+      continue;
+    }
+
+    const value = isNumericSchema(parameter.schema) && !Number.isNaN(Number(raw)) ? Number(raw) : raw;
+    issues.push(...validateValue(parameter.schema, value, ["query", parameter.name]));
+    values[parameter.name] = value;
+  }
+
+  return issues.length ? validationError(issues) : (values as ListingQuery);
+}
+
+function filterAndPaginate(listings: ListingRead[], query: ListingQuery) {
+  const city = query.city?.trim().toLowerCase();
+  const keywords = parseKeywords(query.q);
+  const inRange = (value: number, min?: number | null, max?: number | null) =>
+    (min === undefined || min === null || value >= min) && (max === undefined || max === null || value <= max);
+
+  const filtered = listings.filter(
+    (listing) =>
+      (!query.property_type || listing.property_type === query.property_type) &&
+      (!query.listing_type || listing.listing_type === query.listing_type) &&
+      (!city || listing.city.toLowerCase() === city) &&
+      matchesKeywords(listing, keywords) &&
+      inRange(listing.price, query.min_price, query.max_price) &&
+      inRange(listing.area_sqm, query.min_area, query.max_area) &&
+      inRange(listing.rooms, query.min_rooms, query.max_rooms),
+  );
+
+  const direction = query.sort_order === "asc" ? 1 : -1;
+  filtered.sort((a, b) => {
+    const left = a[query.sort_by];
+    const right = b[query.sort_by];
+    if (left === right) return a.id.localeCompare(b.id);
+    return (left < right ? -1 : 1) * direction;
+  });
+
+  const start = (query.page - 1) * query.page_size;
+  return {
+    items: filtered.slice(start, start + query.page_size),
+    total: filtered.length,
+    page: query.page,
+    page_size: query.page_size,
+  };
+}
+
+function mountPath(url: URL) {
+  const index = url.pathname.indexOf("/api/v1/");
+  return index >= 0 ? url.pathname.slice(0, index) : url.pathname.replace(/\/media\/[^/]+$/, "");
+}
+
+async function listingsRoutes(request: Request, url: URL, rest: string[]): Promise<Response> {
+  const db = getMockDatabase();
+  const method = request.method;
+
+  if (rest.length === 0 && method === "GET") {
+    const query = parseListingQuery(url);
+    if (query instanceof Response) return query;
+    return json(filterAndPaginate([...db.listings.values()], query));
+  }
+
+  if (rest.length === 0 && method === "POST") {
+    const user = requireUser(request);
+    if (user instanceof Response) return user;
+
+    const body = await readJson(request);
+    const issues = validateSchema("ListingCreate", body, ["body"]);
+    if (issues.length) return validationError(issues);
+
+    const input = body as ListingCreate;
+    const listing: ListingRead = {
+      ...input,
+      description: input.description ?? null,
+      id: randomUUID(),
+      user_id: user.id,
+      created_at: new Date().toISOString(),
+      images: [],
+    };
+    db.listings.set(listing.id, listing);
+    return json(listing, 201);
+  }
+
+  if (rest.length === 1 && rest[0] === "me" && method === "GET") {
+    const user = requireUser(request);
+    if (user instanceof Response) return user;
+
+    const query = parseListingQuery(url);
+    if (query instanceof Response) return query;
+    const own = [...db.listings.values()].filter((listing) => listing.user_id === user.id);
+    return json(filterAndPaginate(own, query));
+  }
+
+  const [listingId, subresource] = rest;
+  if (!listingId || rest.length > 2) return detail(404, "Not Found");
+
+  const invalidId = checkUuid(listingId, "listing_id");
+  if (invalidId) return invalidId;
+
+  const listing = db.listings.get(listingId);
+
+  if (rest.length === 1 && method === "GET") {
+    return listing ? json(listing) : detail(404, "Listing not found");
+  }
+
+  const user = requireUser(request);
+  if (user instanceof Response) return user;
+  if (!listing) return detail(404, "Listing not found");
+  if (listing.user_id !== user.id && !hasRole(user, ["admin", "moderator"])) {
+    return detail(403, "Not enough permissions");
+  }
+
+  if (rest.length === 1 && method === "PATCH") {
+    const body = await readJson(request);
+    const issues = validateSchema("ListingUpdate", body, ["body"]);
+    if (issues.length) return validationError(issues);
+
+    const changes = Object.entries(body as ListingUpdate).filter(
+      ([key, value]) => value !== undefined && (value !== null || key === "description"),
+    );
+    const updated = { ...listing, ...Object.fromEntries(changes) } as ListingRead;
+    db.listings.set(listing.id, updated);
+    return json(updated);
+  }
+
+  if (rest.length === 1 && method === "DELETE") {
+    db.listings.delete(listing.id);
+    listing.images?.forEach((image) => db.images.delete(image.id));
+    return new Response(null, { status: 204 });
+  }
+
+  if (subresource === "images" && method === "POST") {
+    const form = await request.formData().catch(() => null);
+    const file = form?.get("file");
+    if (!(file instanceof Blob)) {
+      return validationError([{ loc: ["body", "file"], type: "missing", msg: "Field required" }]);
+    }
+    if (!file.type.startsWith("image/")) return detail(400, "File must be an image");
+
+    const id = randomUUID();
+    db.images.set(id, { contentType: file.type, bytes: new Uint8Array(await file.arrayBuffer()) });
+
+    const image = { id, url: `${url.origin}${mountPath(url)}/media/${id}`, created_at: new Date().toISOString() };
+    db.listings.set(listing.id, { ...listing, images: [...(listing.images ?? []), image] });
+    return json(image, 201);
+  }
+
+  return detail(405, "Method Not Allowed");
+}
+
+function sendEmail(to: string, subject: string, text: string, links: string[]) {
+  getMockDatabase().outbox.push({
+    id: randomUUID(),
+    to,
+    subject,
+    text,
+    links,
+    sent_at: new Date().toISOString(),
+  });
+}
+
+async function passwordResetRoutes(request: Request, url: URL, rest: string[]): Promise<Response> {
+  const db = getMockDatabase();
+
+  if (rest.length === 0) {
+    const body = await readJson(request);
+    const issues = validateSchema("PasswordResetRequest", body, ["body"]);
+    if (issues.length) return validationError(issues);
+
+    const email = (body as PasswordResetRequest).email.trim().toLowerCase();
+    const user = [...db.users.values()].find((candidate) => candidate.email === email);
+    if (user) {
+      const token = randomBytes(32).toString("base64url");
+      db.resetTokens.set(token, { userId: user.id, expiresAt: Date.now() + RESET_TOKEN_TTL_MS });
+
+      // The mock is mounted inside the app, so its origin is the app's origin.
+      const link = `${url.origin}/reset-password/${token}`;
+      sendEmail(
+        user.email,
+        "Reset your PropertySystems password",
+        `Someone asked to reset the password for ${user.email}. Open ${link} within 30 minutes to choose a new one. If it was not you, ignore this email.`,
+        [link],
+      );
+    }
+    return new Response(null, { status: 202 });
+  }
+
+  if (rest.length === 1 && rest[0] === "confirm") {
+    const body = await readJson(request);
+    const issues = validateSchema("PasswordResetConfirm", body, ["body"]);
+    if (issues.length) return validationError(issues);
+
+    const input = body as PasswordResetConfirm;
+    const entry = db.resetTokens.get(input.token);
+    const user = entry ? db.users.get(entry.userId) : undefined;
+    if (!entry || !user || entry.expiresAt < Date.now()) {
+      db.resetTokens.delete(input.token);
+      return detail(400, "Invalid or expired reset token");
+    }
+
+    db.users.set(user.id, { ...user, password_hash: hashPassword(input.new_password) });
+    db.resetTokens.forEach((other, token) => {
+      if (other.userId === user.id) db.resetTokens.delete(token);
+    });
+    return new Response(null, { status: 204 });
+  }
+
+  return detail(404, "Not Found");
+}
+
+async function updateAccount(request: Request, user: StoredUser): Promise<Response> {
+  const db = getMockDatabase();
+  const body = await readJson(request);
+  const issues = validateSchema("AccountUpdate", body, ["body"]);
+  if (issues.length) return validationError(issues);
+
+  const input = body as AccountUpdate;
+  const email = input.email?.trim().toLowerCase();
+  const changesEmail = Boolean(email && email !== user.email);
+
+  if (changesEmail || input.new_password) {
+    if (!input.current_password) {
+      return validationError([{ loc: ["body", "current_password"], type: "missing", msg: "Field required" }]);
+    }
+    if (!verifyPassword(input.current_password, user.password_hash)) {
+      return validationError([
+        { loc: ["body", "current_password"], type: "value_error", msg: "Current password is incorrect" },
+      ]);
+    }
+  }
+
+  if (changesEmail && [...db.users.values()].some((other) => other.email === email && other.id !== user.id)) {
+    return detail(400, "Email already registered");
+  }
+
+  const updated: StoredUser = {
+    ...user,
+    email: email || user.email,
+    full_name: input.full_name !== undefined ? input.full_name : user.full_name,
+    password_hash: input.new_password ? hashPassword(input.new_password) : user.password_hash,
+  };
+  db.users.set(updated.id, updated);
+  return json(toUserRead(updated));
+}
+
+async function authRoutes(request: Request, url: URL, rest: string[]): Promise<Response> {
+  const db = getMockDatabase();
+  const [action] = rest;
+
+  if (action === "register" && request.method === "POST") {
+    const body = await readJson(request);
+    const issues = validateSchema("UserCreate", body, ["body"]);
+    if (issues.length) return validationError(issues);
+
+    const input = body as UserCreate;
+    const email = input.email.trim().toLowerCase();
+    if ([...db.users.values()].some((user) => user.email === email)) {
+      return detail(400, "Email already registered");
+    }
+
+    const user: StoredUser = {
+      id: randomUUID(),
+      email,
+      full_name: input.full_name ?? null,
+      // Self-registration never grants a role; administrators promote users afterwards.
+      role: "user",
+      created_at: new Date().toISOString(),
+      password_hash: hashPassword(input.password),
+    };
+    db.users.set(user.id, user);
+    return json(toUserRead(user), 201);
+  }
+
+  if (action === "login" && request.method === "POST") {
+    const body = await readJson(request);
+    const issues = validateSchema("UserLogin", body, ["body"]);
+    if (issues.length) return validationError(issues);
+
+    const input = body as UserLogin;
+    const email = input.email.trim().toLowerCase();
+    const user = [...db.users.values()].find((candidate) => candidate.email === email);
+    if (!user || !verifyPassword(input.password, user.password_hash)) {
+      return detail(401, "Incorrect email or password");
+    }
+    return json({ access_token: signAccessToken(user.id), token_type: "bearer" });
+  }
+
+  if (action === "password-reset" && request.method === "POST") {
+    return passwordResetRoutes(request, url, rest.slice(1));
+  }
+
+  if (action === "me" && request.method === "GET") {
+    const user = requireUser(request);
+    return user instanceof Response ? user : json(toUserRead(user));
+  }
+
+  if (action === "me" && request.method === "PATCH") {
+    const user = requireUser(request);
+    if (user instanceof Response) return user;
+    return updateAccount(request, user);
+  }
+
+  return detail(404, "Not Found");
+}
+
+async function usersRoutes(request: Request, rest: string[]): Promise<Response> {
+  const db = getMockDatabase();
+  const user = requireUser(request);
+  if (user instanceof Response) return user;
+  if (!hasRole(user, ["admin", "moderator"])) return detail(403, "Not enough permissions");
+
+  const [userId] = rest;
+
+  if (!userId && request.method === "GET") {
+    return json([...db.users.values()].map(toUserRead));
+  }
+
+  if (!userId || rest.length > 1) return detail(404, "Not Found");
+
+  const invalidId = checkUuid(userId, "user_id");
+  if (invalidId) return invalidId;
+
+  const target = db.users.get(userId);
+  if (!target) return detail(404, "User not found");
+
+  if (request.method === "GET") return json(toUserRead(target));
+
+  if (request.method === "PATCH") {
+    const body = await readJson(request);
+    const issues = validateSchema("UserUpdate", body, ["body"]);
+    if (issues.length) return validationError(issues);
+
+    const input = body as UserUpdate;
+    // Moderators may only rename users, and never touch an administrator.
+    if (!hasRole(user, ["admin"])) {
+      if (hasRole(target, ["admin"])) return detail(403, "Only administrators can edit administrators");
+      if (input.role && input.role !== target.role) return detail(403, "Only administrators can change roles");
+      if (input.email || input.password) {
+        return detail(403, "Only administrators can change another user's email or password");
+      }
+    }
+
+    const email = input.email?.trim().toLowerCase();
+    if (email && [...db.users.values()].some((other) => other.email === email && other.id !== target.id)) {
+      return detail(400, "Email already registered");
+    }
+
+    const updated: StoredUser = {
+      ...target,
+      email: email ?? target.email,
+      full_name: input.full_name !== undefined ? input.full_name : target.full_name,
+      role: input.role ?? target.role,
+      password_hash: input.password ? hashPassword(input.password) : target.password_hash,
+    };
+    db.users.set(updated.id, updated);
+    return json(toUserRead(updated));
+  }
+
+  if (request.method === "DELETE") {
+    if (!hasRole(user, ["admin"])) return detail(403, "Only administrators can delete users");
+    if (target.id === user.id) return detail(400, "You cannot delete your own account");
+    db.users.delete(target.id);
+    return new Response(null, { status: 204 });
+  }
+
+  return detail(405, "Method Not Allowed");
+}
+
+async function impersonationsRoutes(request: Request, rest: string[]): Promise<Response> {
+  const db = getMockDatabase();
+  const user = requireUser(request);
+  if (user instanceof Response) return user;
+  if (!hasRole(user, ["admin"])) return detail(403, "Only administrators can impersonate users");
+
+  if (rest.length === 0 && request.method === "GET") {
+    return json([...db.impersonations].reverse());
+  }
+
+  if (rest.length === 0 && request.method === "POST") {
+    const body = await readJson(request);
+    const issues = validateSchema("ImpersonationCreate", body, ["body"]);
+    if (issues.length) return validationError(issues);
+
+    const target = db.users.get((body as ImpersonationCreate).user_id);
+    if (!target) return detail(404, "User not found");
+    if (target.id === user.id) return detail(400, "You cannot impersonate yourself");
+    if (hasRole(target, ["admin"])) return detail(400, "Administrators cannot be impersonated");
+
+    const record = {
+      id: randomUUID(),
+      admin_id: user.id,
+      user_id: target.id,
+      started_at: new Date().toISOString(),
+      ended_at: null,
+    };
+    db.impersonations.push(record);
+    return json(record, 201);
+  }
+
+  const [impersonationId, action] = rest;
+  if (rest.length !== 2 || action !== "end") return detail(404, "Not Found");
+  if (request.method !== "POST") return detail(405, "Method Not Allowed");
+
+  const invalidId = checkUuid(impersonationId, "impersonation_id");
+  if (invalidId) return invalidId;
+
+  const index = db.impersonations.findIndex((record) => record.id === impersonationId);
+  const record = db.impersonations[index];
+  if (!record || record.admin_id !== user.id) return detail(404, "Impersonation not found");
+  if (record.ended_at) return json(record);
+
+  const ended = { ...record, ended_at: new Date().toISOString() };
+  db.impersonations[index] = ended;
+  return json(ended);
+}
+
+function toCollectionRead(collection: StoredCollection): CollectionRead {
+  return {
+    id: collection.id,
+    name: collection.name,
+    listing_ids: collection.listing_ids,
+    created_at: collection.created_at,
+  };
+}
+
+async function collectionsRoutes(request: Request, rest: string[]): Promise<Response> {
+  const db = getMockDatabase();
+  const user = requireUser(request);
+  if (user instanceof Response) return user;
+
+  if (rest.length === 0 && request.method === "GET") {
+    const ownerId = new URL(request.url).searchParams.get("user_id") ?? user.id;
+    if (ownerId !== user.id) {
+      const issues = validateValue({ type: "string", format: "uuid" }, ownerId, ["query", "user_id"]);
+      if (issues.length) return validationError(issues);
+      if (!hasRole(user, ["admin"])) return detail(403, "Only administrators can read another user's collections");
+    }
+    const owned = [...db.collections.values()].filter((collection) => collection.user_id === ownerId);
+    return json(owned.map(toCollectionRead));
+  }
+
+  if (rest.length === 0 && request.method === "POST") {
+    const body = await readJson(request);
+    const issues = validateSchema("CollectionCreate", body, ["body"]);
+    if (issues.length) return validationError(issues);
+
+    const input = body as CollectionCreate;
+    const collection: StoredCollection = {
+      id: randomUUID(),
+      name: input.name.trim(),
+      listing_ids: [...new Set(input.listing_ids ?? [])],
+      created_at: new Date().toISOString(),
+      user_id: user.id,
+    };
+    db.collections.set(collection.id, collection);
+    return json(toCollectionRead(collection), 201);
+  }
+
+  const [collectionId] = rest;
+  if (rest.length !== 1) return detail(404, "Not Found");
+
+  const invalidId = checkUuid(collectionId, "collection_id");
+  if (invalidId) return invalidId;
+
+  // Other users' collections are reported as missing rather than forbidden.
+  const collection = db.collections.get(collectionId);
+  if (!collection || collection.user_id !== user.id) return detail(404, "Collection not found");
+
+  if (request.method === "PATCH") {
+    const body = await readJson(request);
+    const issues = validateSchema("CollectionUpdate", body, ["body"]);
+    if (issues.length) return validationError(issues);
+
+    const input = body as CollectionUpdate;
+    const updated: StoredCollection = {
+      ...collection,
+      name: input.name?.trim() || collection.name,
+      listing_ids: input.listing_ids ? [...new Set(input.listing_ids)] : collection.listing_ids,
+    };
+    db.collections.set(updated.id, updated);
+    return json(toCollectionRead(updated));
+  }
+
+  if (request.method === "DELETE") {
+    db.collections.delete(collection.id);
+    return new Response(null, { status: 204 });
+  }
+
+  return detail(405, "Method Not Allowed");
+}
+
+// Not part of the API contract: lets developers and tests read the emails the
+// mock "sent", newest last, and clear them between runs.
+function outboxRoute(request: Request): Response {
+  const db = getMockDatabase();
+  if (request.method === "GET") return json(db.outbox);
+  if (request.method === "DELETE") {
+    db.outbox.length = 0;
+    return new Response(null, { status: 204 });
+  }
+  return detail(405, "Method Not Allowed");
+}
+
+function mediaRoute(imageId: string | undefined): Response {
+  const image = imageId ? getMockDatabase().images.get(imageId) : undefined;
+  if (!image) return detail(404, "Not Found");
+
+  return new Response(image.bytes.slice().buffer, {
+    headers: { "Content-Type": image.contentType, "Cache-Control": "public, max-age=31536000, immutable" },
+  });
+}
+
+/**
+ * Serves the listings API contract from memory. `segments` is the request path
+ * below the mount point, e.g. ["api", "v1", "listings", "<id>"].
+ */
+export async function handleMockRequest(request: Request, segments: string[]): Promise<Response> {
+  const url = new URL(request.url);
+  const [first, second, resource, ...rest] = segments;
+
+  if (first === "media" && request.method === "GET") return mediaRoute(second);
+  if (first === "outbox" && !second) return outboxRoute(request);
+  if (first !== "api" || second !== "v1") return detail(404, "Not Found");
+
+  switch (resource) {
+    case "listings":
+      return listingsRoutes(request, url, rest);
+    case "auth":
+      return authRoutes(request, url, rest);
+    case "users":
+      return usersRoutes(request, rest.filter(Boolean));
+    case "impersonations":
+      return impersonationsRoutes(request, rest.filter(Boolean));
+    case "collections":
+      return collectionsRoutes(request, rest.filter(Boolean));
+    default:
+      return detail(404, "Not Found");
+  }
+}
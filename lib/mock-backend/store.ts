@@ -0,0 +1,75 @@
+import type { ListingRead, UserRead } from "@/lib/api-client";
+import type { CollectionRead, ImpersonationRead } from "@/lib/proposed-api";
+
+import { hashPassword } from "./auth";
+import { FIXTURE_PASSWORD, listingFixtures, userFixtures } from "./fixtures";
+
+export type StoredUser = UserRead & { password_hash: string };
+
+export type StoredImage = {
+  contentType: string;
+  bytes: Uint8Array;
+};
+
+export type StoredCollection = CollectionRead & { user_id: string };
+
+export type PasswordResetToken = {
+  userId: string;
+  expiresAt: number;
+};
+
+/** An email the mock backend would have sent, kept for development and tests. */
+export type OutboxEmail = {
+  id: string;
+  to: string;
+  subject: string;
+  text: string;
+  /** Links contained in the email, e.g. the password reset URL. */
+  links: string[];
+  sent_at: string;
+};
+
+export type MockDatabase = {
+  users: Map<string, StoredUser>;
+  listings: Map<string, ListingRead>;
+  images: Map<string, StoredImage>;
+  resetTokens: Map<string, PasswordResetToken>;
+  outbox: OutboxEmail[];
+  /** Impersonation audit log, oldest first. */
+  impersonations: ImpersonationRead[];
+  collections: Map<string, StoredCollection>;
+};
+
+function seed(): MockDatabase {
+  const passwordHash = hashPassword(FIXTURE_PASSWORD);
+
+  return {
+    users: new Map(userFixtures.map((user) => [user.id, { ...user, password_hash: passwordHash }])),
+    listings: new Map(listingFixtures.map((listing) => [listing.id, listing])),
+    images: new Map(),
+    resetTokens: new Map(),
+    outbox: [],
+    impersonations: [],
+    collections: new Map(),
+  };
+}
+
+// Kept on globalThis so dev-server reloads of this module do not wipe the data.
+const globalStore = globalThis as typeof globalThis & { __propertySystemsMockDb?: MockDatabase };
+
+export function getMockDatabase(): MockDatabase {
+  if (!globalStore.__propertySystemsMockDb) {
+    globalStore.__propertySystemsMockDb = seed();
+  }
+  return globalStore.__propertySystemsMockDb;
+}
+
+export function toUserRead(user: StoredUser): UserRead {
+  return {
+    id: user.id,
+    email: user.email,
+    full_name: user.full_name,
+    role: user.role,
+    created_at: user.created_at,
+  };
+}
@@ -0,0 +1,118 @@
+import type { FieldErrors } from "@/lib/api";
+import { commonPasswords } from "@/lib/common-passwords";
+
+// Client-side password policy shared by registration, password reset and the
+// account page. The backend only enforces a minimum length, so this catches
+// weak passwords before they are submitted.
+
+export const PASSWORD_MIN_LENGTH = 10;
+
+/** How many of lowercase, uppercase, digits and symbols must appear. */
+export const PASSWORD_MIN_CHARACTER_CLASSES = 3;
+
+export type PasswordRuleId = "length" | "classes" | "common" | "email";
+
+export type PasswordRuleResult = {
+  id: PasswordRuleId;
+  label: string;
+  /** Shown under the field when the rule fails on submit. */
+  message: string;
+  passed: boolean;
+};
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export type PasswordCheck = {
+  rules: PasswordRuleResult[];
+  /** True when every rule passes. */
+  valid: boolean;
+  strength: PasswordStrength;
+};
+
+export const passwordStrengthLabels: Record<PasswordStrength, string> = {
+  0: "Too weak",
+  1: "Weak",
+  2: "Fair",
+  3: "Good",
+  4: "Strong",
+};
+
+const characterClasses = [/[a-z]/, /[A-Z]/, /\d/, /[^a-zA-Z\d]/];
+
+function countCharacterClasses(password: string) {
+  return characterClasses.filter((pattern) => pattern.test(password)).length;
+}
+
+// "Password123!" and "qwerty2024" are as guessable as the words they are built on.
+function isCommonPassword(password: string) {
+  const lower = password.toLowerCase();
+  const stem = lower.replace(/[\d\W_]+$/, "");
+  return commonPasswords.has(lower) || (stem.length > 0 && commonPasswords.has(stem));
+}
+
+// Only the local part is compared; a domain like "gmail" is not personal.
+function containsEmail(password: string, email?: string | null) {
+  const localPart = email?.trim().toLowerCase().split("@")[0] ?? "";
+  return localPart.length >= 3 && password.toLowerCase().includes(localPart);
+}
+
+export function checkPassword(password: string, email?: string | null): PasswordCheck {
+  const classes = countCharacterClasses(password);
+  const rules: PasswordRuleResult[] = [
+    {
+      id: "length",
+      label: `At least ${PASSWORD_MIN_LENGTH} characters`,
+      message: `Use at least ${PASSWORD_MIN_LENGTH} characters.`,
+      passed: password.length >= PASSWORD_MIN_LENGTH,
+    },
+    {
+      id: "classes",
+      label: `${PASSWORD_MIN_CHARACTER_CLASSES} of: lowercase, uppercase, number, symbol`,
+      message: `Mix at least ${PASSWORD_MIN_CHARACTER_CLASSES} of lowercase letters, uppercase letters, numbers and symbols.`,
+      passed: classes >= PASSWORD_MIN_CHARACTER_CLASSES,
+    },
+    {
+      id: "common",
+      label: "Not a commonly used password",
+      message: "This password is too common. Choose something less predictable.",
+      passed: password.length > 0 && !isCommonPassword(password),
+    },
+    {
+      id: "email",
+      label: "Does not contain your email",
+      message: "Your password must not contain your email address.",
+      passed: password.length > 0 && !containsEmail(password, email),
+    },
+  ];
+
+  const valid = rules.every((rule) => rule.passed);
+  return { rules, valid, strength: valid ? scoreStrength(password, classes) : password ? 1 : 0 };
+}
+
+// Passing the policy earns "Fair"; extra length and variety push it higher.
+function scoreStrength(password: string, classes: number): PasswordStrength {
+  let score = 2;
+  if (password.length >= PASSWORD_MIN_LENGTH + 4) score += 1;
+  if (classes === characterClasses.length && password.length >= PASSWORD_MIN_LENGTH + 2) score += 1;
+  return Math.min(score, 4) as PasswordStrength;
+}
+
+/**
+ * Returns field errors for a new password and its confirmation, or null when
+ * both are acceptable. `field` is the API field name the password is sent as,
+ * so the errors slot in next to the ones from `getFieldErrors`.
+ */
+export function validateNewPassword(
+  password: string,
+  confirmation: string,
+  email?: string | null,
+  field = "password",
+): FieldErrors | null {
+  const failed = checkPassword(password, email).rules.find((rule) => !rule.passed);
+  const errors: FieldErrors = {};
+
+  if (failed) errors[field] = failed.message;
+  if (password !== confirmation) errors.confirmation = "Passwords do not match.";
+
+  return Object.keys(errors).length ? errors : null;
+}
@@ -0,0 +1,60 @@
+import type { ListingRead, UserRead, UserRole } from "@/lib/api-client";
+
+// Single source of truth for what each role may do in the UI. The backend
+// enforces the same rules; these checks decide what to show and which routes
+// proxy.ts lets through.
+
+export type Capability =
+  /** Publish new listings. */
+  | "listings.create"
+  /** Edit or delete listings owned by someone else. */
+  | "listings.manage_any"
+  /** Open the user management page. */
+  | "users.view"
+  /** Change another user's name. */
+  | "users.edit"
+  /** Promote or demote users between roles. */
+  | "users.change_role"
+  /** Remove user accounts. */
+  | "users.delete"
+  /** View the app as another (non-admin) user; see app/api/auth/impersonation. */
+  | "users.impersonate";
+
+/** Resource checks that combine a capability with ownership. */
+export type ResourceAction = "listings.manage";
+
+export type Action = Capability | ResourceAction;
+
+export type ListingResource = Pick<ListingRead, "user_id">;
+
+export const roleCapabilities: Record<UserRole, readonly Capability[]> = {
+  user: ["listings.create"],
+  moderator: ["listings.create", "listings.manage_any", "users.view", "users.edit"],
+  admin: [
+    "listings.create",
+    "listings.manage_any",
+    "users.view",
+    "users.edit",
+    "users.change_role",
+    "users.delete",
+    "users.impersonate",
+  ],
+};
+
+type Subject = Pick<UserRead, "id" | "role"> | null | undefined;
+
+function hasCapability(user: Subject, capability: Capability) {
+  if (!user) return false;
+  const capabilities = roleCapabilities[user.role ?? "user"] as readonly Capability[] | undefined;
+  return capabilities?.includes(capability) ?? false;
+}
+
+export function can(user: Subject, action: Capability): boolean;
+export function can(user: Subject, action: ResourceAction, listing: ListingResource): boolean;
+export function can(user: Subject, action: Action, listing?: ListingResource): boolean {
+  if (action === "listings.manage") {
+    if (!user || !listing) return false;
+    return listing.user_id === user.id || hasCapability(user, "listings.manage_any");
+  }
+  return hasCapability(user, action);
+}
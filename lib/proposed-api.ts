@@ -0,0 +1,185 @@
+// Client for the operations in docs/proposed-api.openapi.json: endpoints the
+// frontend needs that the backend has not shipped yet. They are kept out of the
+// generated lib/api-client.ts; once the backend exposes one, move it into
+// docs/listings-api.openapi.json, run `npm run generate:api` and delete it here.
+
+import { ApiError, apiRequest, type ApiRequest, type ApiRequestOptions } from "@/lib/api";
+import type { UserRead } from "@/lib/api-client";
+
+export type AccountUpdate = {
+  full_name?: string | null;
+  email?: string | null;
+  new_password?: string | null;
+  current_password?: string | null;
+};
+
+export type CollectionCreate = {
+  name: string;
+  listing_ids?: string[];
+};
+
+export type CollectionRead = {
+  id: string;
+  name: string;
+  listing_ids: string[];
+  created_at: string;
+};
+
+export type CollectionUpdate = {
+  name?: string | null;
+  listing_ids?: string[] | null;
+};
+
+export type ImpersonationCreate = {
+  user_id: string;
+};
+
+export type ImpersonationRead = {
+  id: string;
+  admin_id: string;
+  user_id: string;
+  started_at: string;
+  ended_at: string | null;
+};
+
+/** The `q` keyword parameter proposed for GET /api/v1/listings and /api/v1/listings/me. */
+export type ListingsSearchQuery = {
+  q?: string | null;
+};
+
+export type PasswordResetConfirm = {
+  token: string;
+  new_password: string;
+};
+
+export type PasswordResetRequest = {
+  email: string;
+};
+
+/**
+ * True when `error` means the backend does not implement a proposed operation,
+ * i.e. it answered with 405 or with a 404 whose detail is FastAPI's bare
+ * "Not Found" for an unknown route. Any other 404, such as a missing
+ * collection, stays an ordinary ApiError and is not reported here.
+ */
+export function isUnavailable(error: unknown): boolean {
+  return error instanceof ApiError && error.code === "not_available";
+}
+
+async function proposedRequest<T>(request: ApiRequest, options?: ApiRequestOptions): Promise<T> {
+  try {
+    return await apiRequest<T>(request, options);
+  } catch (error) {
+    const unknownRoute =
+      error instanceof ApiError &&
+      (error.status === 405 || (error.status === 404 && error.message === "Not Found"));
+    if (!unknownRoute) throw error;
+    throw new ApiError(error.status, "This feature is not available yet.", "not_available");
+  }
+}
+
+/** Update Current User: PATCH /api/v1/auth/me (bearer token required). */
+export function updateCurrentUser(body: AccountUpdate, options?: ApiRequestOptions) {
+  return proposedRequest<UserRead>(
+    { method: "PATCH", path: "/api/v1/auth/me", json: body, responseSchema: { $ref: "#/components/schemas/UserRead" } },
+    options,
+  );
+}
+
+/** Request Password Reset: POST /api/v1/auth/password-reset. */
+export function requestPasswordReset(body: PasswordResetRequest, options?: ApiRequestOptions) {
+  return proposedRequest<void>({ method: "POST", path: "/api/v1/auth/password-reset", json: body }, options);
+}
+
+/** Confirm Password Reset: POST /api/v1/auth/password-reset/confirm. */
+export function confirmPasswordReset(body: PasswordResetConfirm, options?: ApiRequestOptions) {
+  return proposedRequest<void>({ method: "POST", path: "/api/v1/auth/password-reset/confirm", json: body }, options);
+}
+
+/** List Impersonations: GET /api/v1/impersonations (bearer token required). */
+export function listImpersonations(options?: ApiRequestOptions) {
+  return proposedRequest<ImpersonationRead[]>(
+    {
+      method: "GET",
+      path: "/api/v1/impersonations",
+      responseSchema: { type: "array", items: { $ref: "#/components/schemas/ImpersonationRead" } },
+    },
+    options,
+  );
+}
+
+/** Start Impersonation: POST /api/v1/impersonations (bearer token required). */
+export function startImpersonation(body: ImpersonationCreate, options?: ApiRequestOptions) {
+  return proposedRequest<ImpersonationRead>(
+    {
+      method: "POST",
+      path: "/api/v1/impersonations",
+      json: body,
+      responseSchema: { $ref: "#/components/schemas/ImpersonationRead" },
+    },
+    options,
+  );
+}
+
+/** End Impersonation: POST /api/v1/impersonations/{impersonation_id}/end (bearer token required). */
+export function endImpersonation(impersonationId: string, options?: ApiRequestOptions) {
+  return proposedRequest<ImpersonationRead>(
+    {
+      method: "POST",
+      path: `/api/v1/impersonations/${encodeURIComponent(impersonationId)}/end`,
+      responseSchema: { $ref: "#/components/schemas/ImpersonationRead" },
+    },
+    options,
+  );
+}
+
+export type ListCollectionsQuery = {
+  user_id?: string | null;
+};
+
+/** List Collections: GET /api/v1/collections (bearer token required). */
+export function listCollections(query?: ListCollectionsQuery, options?: ApiRequestOptions) {
+  return proposedRequest<CollectionRead[]>(
+    {
+      method: "GET",
+      path: "/api/v1/collections",
+      query,
+      responseSchema: { type: "array", items: { $ref: "#/components/schemas/CollectionRead" } },
+    },
+    options,
+  );
+}
+
+/** Create Collection: POST /api/v1/collections (bearer token required). */
+export function createCollection(body: CollectionCreate, options?: ApiRequestOptions) {
+  return proposedRequest<CollectionRead>(
+    {
+      method: "POST",
+      path: "/api/v1/collections",
+      json: body,
+      responseSchema: { $ref: "#/components/schemas/CollectionRead" },
+    },
+    options,
+  );
+}
+
+/** Update Collection: PATCH /api/v1/collections/{collection_id} (bearer token required). */
+export function updateCollection(collectionId: string, body: CollectionUpdate, options?: ApiRequestOptions) {
+  return proposedRequest<CollectionRead>(
+    {
+      method: "PATCH",
+      path: `/api/v1/collections/${encodeURIComponent(collectionId)}`,
+      json: body,
+      responseSchema: { $ref: "#/components/schemas/CollectionRead" },
+    },
+    options,
+  );
+}
+
+/** Delete Collection: DELETE /api/v1/collections/{collection_id} (bearer token required). */
+export function deleteCollection(collectionId: string, options?: ApiRequestOptions) {
+  return proposedRequest<void>(
+    { method: "DELETE", path: `/api/v1/collections/${encodeURIComponent(collectionId)}` },
+    options,
+  );
+}
@@ -0,0 +1,195 @@
+export type QueryKey = readonly unknown[];
+
+export type QueryState<T> = {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+};
+
+type QueryEntry<T> = {
+  key: QueryKey;
+  hash: string;
+  state: QueryState<T>;
+  stale: boolean;
+  /** Bumped by `invalidate` and `remove` so a request started earlier cannot mark the entry fresh. */
+  generation: number;
+  fetcher?: () => Promise<T>;
+  promise?: Promise<T>;
+  listeners: Set<() => void>;
+  gcTimer?: ReturnType<typeof setTimeout>;
+};
+
+export const DEFAULT_STALE_TIME = 30_000;
+/** How long an entry nobody subscribes to is kept after it was last used. */
+export const GC_TIME = 5 * 60_000;
+
+const emptyState: QueryState<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+};
+
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key, (_, value) => {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(([, entry]) => entry !== undefined)
+          .sort(([a], [b]) => a.localeCompare(b)),
+      );
+    }
+    return value;
+  });
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey) {
+  return prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]));
+}
+
+// A small keyed cache for API reads. Entries keep their last fetcher so that
+// invalidating a key can revalidate it for whoever is still subscribed, and are
+// dropped once nobody has subscribed to or updated them for GC_TIME.
+class QueryCache {
+  private entries = new Map<string, QueryEntry<unknown>>();
+
+  private entry<T>(key: QueryKey): QueryEntry<T> {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, hash, state: emptyState, stale: true, generation: 0, listeners: new Set() };
+      this.entries.set(hash, entry);
+      this.scheduleGc(entry);
+    }
+    return entry as QueryEntry<T>;
+  }
+
+  private update<T>(entry: QueryEntry<T>, patch: Partial<QueryState<T>>) {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach((listener) => listener());
+    this.scheduleGc(entry);
+  }
+
+  /** (Re)starts the countdown to dropping `entry`, unless someone is subscribed. */
+  private scheduleGc<T>(entry: QueryEntry<T>) {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = undefined;
+    if (entry.listeners.size > 0) return;
+
+    entry.gcTimer = setTimeout(() => {
+      entry.gcTimer = undefined;
+      if (entry.listeners.size > 0) return;
+      // The request settling calls update(), which schedules the next check.
+      if (entry.promise) return;
+      if (this.entries.get(entry.hash) === entry) this.entries.delete(entry.hash);
+    }, GC_TIME);
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(hashQueryKey(key))?.state as QueryState<T> | undefined) ?? emptyState;
+  }
+
+  subscribe(key: QueryKey, listener: () => void) {
+    const entry = this.entry(key);
+    entry.listeners.add(listener);
+    this.scheduleGc(entry);
+    return () => {
+      entry.listeners.delete(listener);
+      this.scheduleGc(entry);
+    };
+  }
+
+  isStale(key: QueryKey, staleTime = DEFAULT_STALE_TIME) {
+    const entry = this.entries.get(hashQueryKey(key));
+    if (!entry || entry.stale) return true;
+    return Date.now() - entry.state.updatedAt > staleTime;
+  }
+
+  /**
+   * Starts a request for `key`, sharing any request that is already in flight.
+   * If the entry is invalidated while the request runs, its result is dropped
+   * and the key is fetched again, so waiting callers get the newer response.
+   */
+  revalidate<T>(key: QueryKey, fetcher: () => Promise<T>): Promise<T> {
+    const entry = this.entry<T>(key);
+    entry.fetcher = fetcher;
+    if (entry.promise) return entry.promise;
+
+    this.update(entry, { isFetching: true });
+    const generation = entry.generation;
+    const outdated = () => entry.generation !== generation;
+
+    const promise = fetcher().then(
+      (data) => {
+        entry.promise = undefined;
+        if (outdated()) return this.revalidate(entry.key, entry.fetcher ?? fetcher);
+        entry.stale = false;
+        this.update(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+        return data;
+      },
+      (error: unknown) => {
+        entry.promise = undefined;
+        if (outdated()) return this.revalidate(entry.key, entry.fetcher ?? fetcher);
+        this.update(entry, { error, isFetching: false });
+        throw error;
+      },
+    );
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  /** Resolves from the cache while fresh, otherwise fetches (deduplicated). */
+  fetch<T>(key: QueryKey, fetcher: () => Promise<T>, staleTime = DEFAULT_STALE_TIME): Promise<T> {
+    const state = this.getState<T>(key);
+    if (state.data !== undefined && !this.isStale(key, staleTime)) {
+      return Promise.resolve(state.data);
+    }
+    return this.revalidate(key, fetcher);
+  }
+
+  setData<T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)) {
+    const entry = this.entry<T>(key);
+    const data =
+      typeof updater === "function"
+        ? (updater as (previous: T | undefined) => T)(entry.state.data)
+        : updater;
+    entry.stale = false;
+    this.update(entry, { data, error: null, updatedAt: Date.now() });
+  }
+
+  /** Marks every entry under `prefix` stale and refetches the ones still in use. */
+  invalidate(prefix: QueryKey) {
+    this.entries.forEach((entry) => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+      entry.stale = true;
+      entry.generation += 1;
+      if (entry.promise) return;
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.revalidate(entry.key, entry.fetcher).catch(() => undefined);
+      }
+    });
+  }
+
+  /** Drops cached data under `prefix`; entries still subscribed are reset instead of deleted. */
+  remove(prefix: QueryKey) {
+    this.entries.forEach((entry, hash) => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+      if (entry.listeners.size === 0) {
+        clearTimeout(entry.gcTimer);
+        this.entries.delete(hash);
+        return;
+      }
+      entry.stale = true;
+      entry.generation += 1;
+      this.update(entry, { data: undefined, error: null, updatedAt: 0 });
+    });
+  }
+
+  clear() {
+    this.remove([]);
+  }
+}
+
+export const queryCache = new QueryCache();
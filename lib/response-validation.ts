@@ -0,0 +1,69 @@
+import { apiConfig } from "@/lib/config";
+import { validateValue, type JsonSchema, type SchemaIssue } from "@/lib/schema-validation";
+
+export class ResponseValidationError extends Error {
+  readonly endpoint: string;
+  readonly issues: SchemaIssue[];
+
+  constructor(endpoint: string, schema: JsonSchema, issues: SchemaIssue[]) {
+    const details = issues.slice(0, 5).map((issue) => `${formatIssuePath(issue.loc)}: ${issue.msg}`);
+    if (issues.length > details.length) details.push(`…and ${issues.length - details.length} more`);
+
+    super(`Response from ${endpoint} does not match ${describeSchema(schema)}. ${details.join("; ")}`);
+    this.name = "ResponseValidationError";
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+export type ResponseValidationReporter = (error: ResponseValidationError) => void;
+
+// Report mode keeps the page working, so mismatches are warnings rather than
+// errors (which Next.js would also raise as a dev overlay).
+let reporter: ResponseValidationReporter = (error) => console.warn(error.message);
+const reportedEndpoints = new Set<string>();
+const idSegment = /\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(?=\/|$)/gi;
+
+/** Replaces the default console warning, e.g. to forward mismatches to error tracking. */
+export function setResponseValidationReporter(next: ResponseValidationReporter) {
+  reporter = next;
+}
+
+/** `["items", 3, "price"]` becomes `items[3].price`. */
+export function formatIssuePath(loc: SchemaIssue["loc"]) {
+  const path = loc.reduce<string>(
+    (result, segment) => (typeof segment === "number" ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment),
+    "",
+  );
+  return path || "(root)";
+}
+
+function describeSchema(schema: JsonSchema): string {
+  if (schema.$ref) return schema.$ref.split("/").pop() ?? schema.$ref;
+  if (schema.type === "array" && schema.items) return `${describeSchema(schema.items)}[]`;
+  return schema.type ?? "the schema";
+}
+
+/**
+ * Checks a decoded response body against its OpenAPI schema. In strict mode a
+ * mismatch throws; in report mode it is reported once per endpoint and the data
+ * is returned unchanged so the UI can render what it can.
+ */
+export function checkResponse<T>(endpoint: string, schema: JsonSchema, data: unknown): T {
+  const mode = apiConfig.responseValidation;
+  if (mode === "off") return data as T;
+
+  const issues = validateValue(schema, data);
+  if (issues.length === 0) return data as T;
+
+  const error = new ResponseValidationError(endpoint, schema, issues);
+  if (mode === "strict") throw error;
+
+  // `GET /api/v1/listings/<id>` is one endpoint however many listings are opened.
+  const endpointKey = endpoint.replace(idSegment, "/{id}");
+  if (!reportedEndpoints.has(endpointKey)) {
+    reportedEndpoints.add(endpointKey);
+    reporter(error);
+  }
+  return data as T;
+}
@@ -0,0 +1,150 @@
+import openapi from "@/docs/listings-api.openapi.json";
+import proposed from "@/docs/proposed-api.openapi.json";
+
+export type JsonSchema = {
+  $ref?: string;
+  anyOf?: JsonSchema[];
+  type?: string;
+  format?: string;
+  enum?: unknown[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  default?: unknown;
+};
+
+export type SchemaName = keyof typeof openapi.components.schemas | keyof typeof proposed.components.schemas;
+
+/** Mirrors FastAPI's `ValidationError` entries so issues can be returned as-is. */
+export type SchemaIssue = {
+  loc: (string | number)[];
+  msg: string;
+  type: string;
+};
+
+// Proposed schemas reference the backend's by name, so both documents share one
+// namespace; a name that clashes would mean the proposal redefines a shipped schema.
+const schemas = { ...openapi.components.schemas, ...proposed.components.schemas } as Record<string, JsonSchema>;
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function resolveSchema(schema: JsonSchema): JsonSchema {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.split("/").pop() ?? "";
+  const resolved = schemas[name];
+  if (!resolved) throw new Error(`Unknown schema reference ${schema.$ref}`);
+  return resolved;
+}
+
+function describe(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function formatEnum(values: unknown[]) {
+  const quoted = values.map((value) => `'${String(value)}'`);
+  return quoted.length > 1 ? `${quoted.slice(0, -1).join(", ")} or ${quoted[quoted.length - 1]}` : quoted[0];
+}
+
+function checkString(schema: JsonSchema, value: string, loc: SchemaIssue["loc"]): SchemaIssue[] {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    return [{ loc, type: "string_too_short", msg: `String should have at least ${schema.minLength} characters` }];
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    return [{ loc, type: "string_too_long", msg: `String should have at most ${schema.maxLength} characters` }];
+  }
+  if (schema.format === "uuid" && !uuidPattern.test(value)) {
+    return [{ loc, type: "uuid_parsing", msg: "Input should be a valid UUID" }];
+  }
+  if (schema.format === "date-time" && Number.isNaN(Date.parse(value))) {
+    return [{ loc, type: "datetime_parsing", msg: "Input should be a valid datetime" }];
+  }
+  if (schema.format === "email" && !emailPattern.test(value)) {
+    return [{ loc, type: "value_error", msg: "value is not a valid email address" }];
+  }
+  return [];
+}
+
+function checkNumber(schema: JsonSchema, value: number, loc: SchemaIssue["loc"]): SchemaIssue[] {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    return [{ loc, type: "greater_than_equal", msg: `Input should be greater than or equal to ${schema.minimum}` }];
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    return [{ loc, type: "greater_than", msg: `Input should be greater than ${schema.exclusiveMinimum}` }];
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    return [{ loc, type: "less_than_equal", msg: `Input should be less than or equal to ${schema.maximum}` }];
+  }
+  return [];
+}
+
+/**
+ * Validates `value` against a JSON schema from the OpenAPI document. Validation
+ * is strict: numeric strings are not accepted where numbers are expected.
+ */
+export function validateValue(schema: JsonSchema, value: unknown, loc: SchemaIssue["loc"] = []): SchemaIssue[] {
+  const resolved = resolveSchema(schema);
+
+  if (resolved.anyOf) {
+    const attempts = resolved.anyOf.map((option) => validateValue(option, value, loc));
+    return attempts.find((issues) => issues.length === 0) ?? attempts[0];
+  }
+
+  if (resolved.enum) {
+    return resolved.enum.includes(value)
+      ? []
+      : [{ loc, type: "enum", msg: `Input should be ${formatEnum(resolved.enum)}` }];
+  }
+
+  switch (resolved.type) {
+    case "null":
+      return value === null ? [] : [{ loc, type: "none_required", msg: "Input should be None" }];
+    case "boolean":
+      return typeof value === "boolean" ? [] : [{ loc, type: "bool_type", msg: "Input should be a valid boolean" }];
+    case "string":
+      if (resolved.format === "binary") return [];
+      return typeof value === "string"
+        ? checkString(resolved, value, loc)
+        : [{ loc, type: "string_type", msg: `Input should be a valid string, received ${describe(value)}` }];
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value)
+        ? checkNumber(resolved, value, loc)
+        : [{ loc, type: "int_type", msg: `Input should be a valid integer, received ${describe(value)}` }];
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? checkNumber(resolved, value, loc)
+        : [{ loc, type: "float_type", msg: `Input should be a valid number, received ${describe(value)}` }];
+    case "array":
+      if (!Array.isArray(value)) {
+        return [{ loc, type: "list_type", msg: `Input should be a valid list, received ${describe(value)}` }];
+      }
+      return value.flatMap((item, index) => (resolved.items ? validateValue(resolved.items, item, [...loc, index]) : []));
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return [{ loc, type: "dict_type", msg: `Input should be a valid dictionary, received ${describe(value)}` }];
+      }
+      const record = value as Record<string, unknown>;
+      const required = new Set(resolved.required ?? []);
+
+      return Object.entries(resolved.properties ?? {}).flatMap(([key, property]) => {
+        if (record[key] === undefined) {
+          return required.has(key) ? [{ loc: [...loc, key], type: "missing", msg: "Field required" }] : [];
+        }
+        return validateValue(property, record[key], [...loc, key]);
+      });
+    }
+    default:
+      return [];
+  }
+}
+
+export function validateSchema(name: SchemaName, value: unknown, loc: SchemaIssue["loc"] = []): SchemaIssue[] {
+  return validateValue({ $ref: `#/components/schemas/${name}` }, value, loc);
+}
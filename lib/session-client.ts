@@ -0,0 +1,46 @@
+import { fetchWithError } from "@/lib/api";
+import type { UserCreate, UserLogin, UserRead } from "@/lib/api-client";
+
+// Browser side of the cookie session kept by the route handlers in app/api/auth.
+
+export type SessionState = {
+  user: UserRead | null;
+  /** When the access token expires, as a millisecond timestamp. */
+  expiresAt: number | null;
+  /** The administrator behind the session while they view the app as `user`. */
+  impersonator: UserRead | null;
+};
+
+export const signedOutSession: SessionState = { user: null, expiresAt: null, impersonator: null };
+
+function postJson<T>(path: string, body?: unknown) {
+  return fetchWithError<T>(path, {
+    method: "POST",
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+export function fetchSession() {
+  return fetchWithError<SessionState>("/api/auth/session", { cache: "no-store" });
+}
+
+export function createSession(credentials: UserLogin) {
+  return postJson<SessionState>("/api/auth/login", credentials);
+}
+
+export function registerSession(payload: UserCreate) {
+  return postJson<SessionState>("/api/auth/register", payload);
+}
+
+export function endSession() {
+  return postJson<void>("/api/auth/logout");
+}
+
+export function startImpersonationSession(userId: string) {
+  return postJson<SessionState>("/api/auth/impersonation", { user_id: userId });
+}
+
+export function endImpersonationSession() {
+  return fetchWithError<SessionState>("/api/auth/impersonation", { method: "DELETE" });
+}
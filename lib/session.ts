@@ -0,0 +1,153 @@
+import { cookies } from "next/headers";
+
+import { ApiError } from "@/lib/api";
+import { getUser, readCurrentUser, type UserRead } from "@/lib/api-client";
+import { can } from "@/lib/permissions";
+import type { ImpersonationRead } from "@/lib/proposed-api";
+import type { SessionState } from "@/lib/session-client";
+
+// Server-only helpers for the cookie session used by the route handlers under
+// app/api and by server components. The access token never leaves the server.
+
+export const SESSION_COOKIE = "propertysystems_session";
+
+/**
+ * Set while an administrator views the app as another user. Holds
+ * `<impersonation id>:<admin id>:<user id>`; the admin id ties it to the
+ * session that started it, so a different login never inherits it.
+ */
+export const IMPERSONATION_COOKIE = "propertysystems_impersonation";
+
+const DEFAULT_SESSION_MAX_AGE = 60 * 60;
+
+/**
+ * Reads the JWT's `exp` claim as a millisecond timestamp, or null when the
+ * token carries none. The signature is not checked; the backend does that.
+ */
+export function tokenExpiresAt(token: string): number | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split(".")[1] ?? "", "base64url").toString("utf8")) as {
+      exp?: unknown;
+    };
+    return typeof payload.exp === "number" ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+function cookieMaxAge(token: string) {
+  const expiresAt = tokenExpiresAt(token);
+  if (expiresAt === null) return DEFAULT_SESSION_MAX_AGE;
+  return Math.max(0, Math.floor((expiresAt - Date.now()) / 1000));
+}
+
+export async function getSessionToken(): Promise<string | null> {
+  const store = await cookies();
+  return store.get(SESSION_COOKIE)?.value ?? null;
+}
+
+export async function setSessionCookie(token: string) {
+  const store = await cookies();
+  store.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: cookieMaxAge(token),
+  });
+}
+
+export async function clearSessionCookie() {
+  const store = await cookies();
+  store.delete(SESSION_COOKIE);
+}
+
+export type ActiveImpersonation = {
+  id: string;
+  adminId: string;
+  userId: string;
+};
+
+export function parseImpersonationCookie(value: string | null | undefined): ActiveImpersonation | null {
+  const [id, adminId, userId] = value?.split(":") ?? [];
+  return id && adminId && userId ? { id, adminId, userId } : null;
+}
+
+export async function getImpersonation(): Promise<ActiveImpersonation | null> {
+  const store = await cookies();
+  return parseImpersonationCookie(store.get(IMPERSONATION_COOKIE)?.value);
+}
+
+export async function setImpersonationCookie(record: ImpersonationRead, token: string) {
+  const store = await cookies();
+  store.set(IMPERSONATION_COOKIE, `${record.id}:${record.admin_id}:${record.user_id}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: cookieMaxAge(token),
+  });
+}
+
+export async function clearImpersonationCookie() {
+  const store = await cookies();
+  store.delete(IMPERSONATION_COOKIE);
+}
+
+export type SessionUsers = {
+  /** The effective user: who permission checks and the UI are for. */
+  user: UserRead;
+  impersonator: UserRead | null;
+};
+
+/**
+ * Reads the token's user and, when that user is impersonating someone, swaps
+ * in the impersonated user. An impersonation cookie that does not belong to the
+ * token's user, or points at a deleted user, is ignored.
+ */
+export async function resolveSessionUsers(
+  token: string,
+  active: ActiveImpersonation | null,
+): Promise<SessionUsers> {
+  const user = await readCurrentUser({ token, cache: "no-store" });
+  if (!active || active.adminId !== user.id || !can(user, "users.impersonate")) {
+    return { user, impersonator: null };
+  }
+
+  try {
+    return { user: await getUser(active.userId, { token, cache: "no-store" }), impersonator: user };
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) return { user, impersonator: null };
+    throw error;
+  }
+}
+
+export function toSessionState(users: SessionUsers | null, token: string | null): SessionState {
+  return {
+    user: users?.user ?? null,
+    expiresAt: users && token ? tokenExpiresAt(token) : null,
+    impersonator: users?.impersonator ?? null,
+  };
+}
+
+/**
+ * Resolves the effective and impersonating users from the session cookies.
+ * Returns null for anonymous visitors and for tokens the backend no longer
+ * accepts.
+ */
+export async function getSessionUsers(): Promise<SessionUsers | null> {
+  const token = await getSessionToken();
+  if (!token) return null;
+
+  try {
+    return await resolveSessionUsers(token, await getImpersonation());
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) return null;
+    throw error;
+  }
+}
+
+/** The effective user for server components; see `getSessionUsers`. */
+export async function getSessionUser(): Promise<UserRead | null> {
+  return (await getSessionUsers())?.user ?? null;
+}
@@ -1,7 +1,15 @@
 import type { NextConfig } from "next";
 
+import { loadApiConfig } from "./lib/config";
+
+// Fail fast on misconfigured backend origins instead of at the first request.
+loadApiConfig();
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The API proxy forwards paths exactly as requested: FastAPI redirects
+  // `/api/v1/users` to `/api/v1/users/`, and following that redirect upstream
+  // can drop the Authorization header and sign the user out.
+  skipTrailingSlashRedirect: true,
 };
 
 export default nextConfig;
@@ -0,0 +1,73 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { ApiError } from "@/lib/api";
+import { getListing, type UserRead } from "@/lib/api-client";
+import { buildLoginHref } from "@/lib/auth-redirect";
+import { can } from "@/lib/permissions";
+import { IMPERSONATION_COOKIE, parseImpersonationCookie, resolveSessionUsers, SESSION_COOKIE } from "@/lib/session";
+
+type ForbiddenReason = "role" | "owner";
+
+function redirectToLogin(request: NextRequest, reason?: "expired") {
+  const { pathname, search } = request.nextUrl;
+  const response = NextResponse.redirect(new URL(buildLoginHref(`${pathname}${search}`, reason), request.url));
+  if (reason) response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
+
+function forbidden(request: NextRequest, reason: ForbiddenReason) {
+  const url = new URL("/forbidden", request.url);
+  url.searchParams.set("reason", reason);
+  return NextResponse.rewrite(url, { status: 403 });
+}
+
+// Returns the reason the user may not open the page, or null when allowed.
+async function checkAccess(pathname: string, user: UserRead, token: string): Promise<ForbiddenReason | null> {
+  if (pathname === "/admin" || pathname.startsWith("/admin/")) {
+    return can(user, "users.view") ? null : "role";
+  }
+
+  if (pathname === "/listings/create") {
+    return can(user, "listings.create") ? null : "role";
+  }
+
+  const editMatch = pathname.match(/^\/listings\/([^/]+)\/edit\/?$/);
+  if (editMatch && !can(user, "listings.manage_any")) {
+    try {
+      const listing = await getListing(decodeURIComponent(editMatch[1]), { token, cache: "no-store" });
+      return can(user, "listings.manage", listing) ? null : "owner";
+    } catch (error) {
+      // A missing listing is reported by the page itself.
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Gates the account, admin, create and edit pages before they render. The
+ * backend still enforces every permission, so if it cannot be reached the
+ * request is let through and the page reports the failure instead of the proxy
+ * guessing.
+ */
+export async function proxy(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return redirectToLogin(request);
+
+  try {
+    // While impersonating, pages are gated for the user being viewed.
+    const impersonation = parseImpersonationCookie(request.cookies.get(IMPERSONATION_COOKIE)?.value);
+    const { user } = await resolveSessionUsers(token, impersonation);
+    const reason = await checkAccess(request.nextUrl.pathname, user, token);
+    return reason ? forbidden(request, reason) : NextResponse.next();
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) return redirectToLogin(request, "expired");
+    return NextResponse.next();
+  }
+}
+
+export const config = {
+  matcher: ["/account", "/admin/:path*", "/listings/create", "/listings/:listingId/edit"],
+};
@@ -0,0 +1,218 @@
+#!/usr/bin/env node
+// Generates lib/api-client.ts from docs/listings-api.openapi.json.
+// Run with `npm run generate:api` whenever the OpenAPI document changes.
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const specPath = join(root, "docs/listings-api.openapi.json");
+const outputPath = join(root, "lib/api-client.ts");
+
+const spec = JSON.parse(readFileSync(specPath, "utf8"));
+const schemas = spec.components?.schemas ?? {};
+
+function pascalCase(value) {
+  return value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function camelCase(value) {
+  const pascal = pascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+// FastAPI operation ids look like `list_listings_api_v1_listings_get`; keep the
+// human part before the path suffix.
+function operationName(operationId) {
+  return camelCase(operationId.split("_api_v1_")[0]);
+}
+
+function schemaName(name) {
+  if (name.startsWith("Body_")) {
+    return `${pascalCase(operationName(name.slice("Body_".length)))}Body`;
+  }
+  return name;
+}
+
+function refName(ref) {
+  return schemaName(ref.split("/").pop());
+}
+
+function optionsName(name) {
+  return `${name.charAt(0).toLowerCase()}${name.slice(1)}Options`;
+}
+
+function tsType(schema) {
+  if (!schema) return "unknown";
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.anyOf) {
+    return [...new Set(schema.anyOf.map(tsType))].join(" | ");
+  }
+  if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+
+  switch (schema.type) {
+    case "string":
+      return schema.format === "binary" ? "Blob" : "string";
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array":
+      return `${wrapUnion(tsType(schema.items))}[]`;
+    case "object":
+      return objectType(schema);
+    default:
+      return "unknown";
+  }
+}
+
+function wrapUnion(type) {
+  return type.includes(" | ") ? `(${type})` : type;
+}
+
+function objectType(schema, indent = "") {
+  const required = new Set(schema.required ?? []);
+  const entries = Object.entries(schema.properties ?? {});
+  if (entries.length === 0) return "Record<string, unknown>";
+
+  const lines = entries.map(([key, value]) => {
+    const optional = required.has(key) ? "" : "?";
+    return `${indent}  ${key}${optional}: ${tsType(value)};`;
+  });
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function emitSchemas() {
+  const blocks = [];
+  for (const [rawName, schema] of Object.entries(schemas)) {
+    const name = schemaName(rawName);
+    if (schema.enum) {
+      const values = schema.enum.map((value) => JSON.stringify(value)).join(", ");
+      blocks.push(
+        `export const ${optionsName(name)} = [${values}] as const;\n` +
+          `export type ${name} = (typeof ${optionsName(name)})[number];`,
+      );
+    } else {
+      blocks.push(`export type ${name} = ${tsType(schema)};`);
+    }
+  }
+  return blocks.join("\n\n");
+}
+
+function successResponse(operation) {
+  const [status, response] =
+    Object.entries(operation.responses ?? {}).find(([code]) => code.startsWith("2")) ?? [];
+  if (!status || !response?.content) return { type: "void", schema: null };
+  const media = Object.values(response.content)[0];
+  return { type: tsType(media.schema), schema: responseSchema(media.schema) };
+}
+
+// Only the structural part of a response schema is needed at runtime; the
+// component schemas themselves are resolved from the OpenAPI document.
+function responseSchema(schema) {
+  if (schema.$ref) return { $ref: schema.$ref };
+  if (schema.type === "array") return { type: "array", items: responseSchema(schema.items) };
+  return { type: schema.type };
+}
+
+function literal(value) {
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).map(([key, item]) => `${key}: ${literal(item)}`);
+    return `{ ${entries.join(", ")} }`;
+  }
+  return JSON.stringify(value);
+}
+
+function emitOperations() {
+  const blocks = [];
+
+  for (const [path, methods] of Object.entries(spec.paths)) {
+    for (const [method, operation] of Object.entries(methods)) {
+      const name = operationName(operation.operationId);
+      const parameters = operation.parameters ?? [];
+      const pathParams = parameters.filter((param) => param.in === "path");
+      const queryParams = parameters.filter((param) => param.in === "query");
+      const content = operation.requestBody?.content ?? {};
+      const jsonBody = content["application/json"]?.schema;
+      const multipartBody = content["multipart/form-data"]?.schema;
+      const response = successResponse(operation);
+      const authenticated = Boolean(operation.security?.length);
+
+      const args = [];
+      const fields = [`method: "${method.toUpperCase()}"`];
+
+      for (const param of pathParams) {
+        args.push(`${camelCase(param.name)}: string`);
+      }
+
+      let urlPath = JSON.stringify(path);
+      if (pathParams.length) {
+        urlPath =
+          "`" +
+          path.replace(/\{([^}]+)\}/g, (_, param) => `\${encodeURIComponent(${camelCase(param)})}`) +
+          "`";
+      }
+      fields.push(`path: ${urlPath}`);
+
+      if (jsonBody) {
+        args.push(`body: ${tsType(jsonBody)}`);
+        fields.push("json: body");
+      } else if (multipartBody) {
+        args.push(`body: ${tsType(multipartBody)}`);
+        fields.push("multipart: body");
+      }
+
+      let queryType = "";
+      if (queryParams.length) {
+        const typeName = `${pascalCase(name)}Query`;
+        const properties = queryParams
+          .map((param) => {
+            const optional = param.required ? "" : "?";
+            return `  ${param.name}${optional}: ${tsType(param.schema)};`;
+          })
+          .join("\n");
+        queryType = `export type ${typeName} = {\n${properties}\n};\n\n`;
+        args.push(`query?: ${typeName}`);
+        fields.push("query");
+      }
+
+      if (response.schema) {
+        fields.push(`responseSchema: ${literal(response.schema)}`);
+      }
+
+      args.push("options?: ApiRequestOptions");
+
+      const summary = `${method.toUpperCase()} ${path}${authenticated ? " (bearer token required)" : ""}`;
+      blocks.push(
+        `${queryType}/** ${operation.summary}: ${summary}. */\n` +
+          `export function ${name}(${args.join(", ")}) {\n` +
+          `  return apiRequest<${response.type}>({ ${fields.join(", ")} }, options);\n` +
+          `}`,
+      );
+    }
+  }
+
+  return blocks.join("\n\n");
+}
+
+const output = `// This file is generated by scripts/generate-api-client.mjs from
+// docs/listings-api.openapi.json. Do not edit it by hand; run
+// \`npm run generate:api\` after changing the OpenAPI document.
+
+import { apiRequest, type ApiRequestOptions } from "@/lib/api";
+
+${emitSchemas()}
+
+${emitOperations()}
+`;
+
+writeFileSync(outputPath, output);
+console.log(`Wrote ${outputPath.replace(`${root}/`, "")}`);